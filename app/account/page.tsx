@@ -0,0 +1,105 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardHeader } from "@/components/ui/card"
+import SessionList from "@/components/session-list"
+import TwoFactorSettings from "@/components/two-factor-settings"
+import VaultSettings from "@/components/vault-settings"
+import ApiTokens from "@/components/api-tokens"
+import ChangePasswordForm from "@/components/change-password-form"
+import DataTransfer from "@/components/data-transfer"
+import { ArrowLeft, Loader2, ShieldCheck } from "lucide-react"
+
+interface AuthUser {
+  id: string
+  username: string
+  name: string
+  role: string
+}
+
+export default function AccountPage() {
+  const router = useRouter()
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null)
+
+  // Verify the session cookie before showing account details
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify", {
+          method: "POST",
+        })
+        const result = await response.json()
+
+        if (result.success && result.user) {
+          setCurrentUser(result.user)
+        } else {
+          router.replace("/")
+        }
+      } catch (error) {
+        console.error("Token verification failed:", error)
+        router.replace("/")
+      }
+    }
+
+    verify()
+  }, [router])
+
+  const handleSignedOut = () => {
+    router.replace("/")
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50 flex items-center justify-center p-4">
+        <Loader2 className="w-10 h-10 animate-spin text-purple-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+          <CardHeader>
+            <div className="flex items-center justify-between flex-wrap gap-4">
+              <div className="flex items-center gap-4">
+                <div className="inline-flex items-center justify-center w-14 h-14 bg-gradient-to-tr from-violet-600 via-purple-600 to-fuchsia-600 rounded-2xl shadow-lg">
+                  <ShieldCheck className="w-7 h-7 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-4xl font-bold bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 bg-clip-text text-transparent">
+                    Account & Security
+                  </h1>
+                  <p className="text-slate-600 mt-1 text-lg">
+                    Signed in as <span className="font-semibold text-purple-600">@{currentUser.username}</span>
+                  </p>
+                </div>
+              </div>
+              <Button asChild variant="outline" className="border-2 border-purple-200 hover:bg-purple-50 bg-white/80">
+                <Link href="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to notes
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        {currentUser.role !== "demo" && <ChangePasswordForm />}
+
+        <TwoFactorSettings />
+
+        <VaultSettings canEnable={currentUser.role !== "demo"} />
+
+        <SessionList isAdmin={currentUser.role === "admin"} onSignedOut={handleSignedOut} />
+
+        {currentUser.role !== "demo" && <ApiTokens />}
+
+        <DataTransfer canImport={currentUser.role !== "demo"} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardHeader } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import UserManagement, { type AdminUserSummary } from "@/components/admin/user-management"
+import StorageHealth from "@/components/admin/storage-health"
+import StorageEncryption from "@/components/admin/storage-encryption"
+import LockedAccounts from "@/components/admin/locked-accounts"
+import AuditLog from "@/components/admin/audit-log"
+import { ArrowLeft, Loader2, Settings } from "lucide-react"
+
+interface AuthUser {
+  id: string
+  username: string
+  name: string
+  role: string
+}
+
+export default function AdminPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null)
+  const [users, setUsers] = useState<AdminUserSummary[]>([])
+  const [isLoadingUsers, setIsLoadingUsers] = useState(true)
+
+  // Only admins get past the loading screen
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify", {
+          method: "POST",
+        })
+        const result = await response.json()
+
+        if (result.success && result.user?.role === "admin") {
+          setCurrentUser(result.user)
+        } else {
+          router.replace("/")
+        }
+      } catch (error) {
+        console.error("Token verification failed:", error)
+        router.replace("/")
+      }
+    }
+
+    verify()
+  }, [router])
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/users", {
+        headers: { "Cache-Control": "no-cache" },
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setUsers(result.users)
+      } else {
+        throw new Error(result.error || "Failed to load users")
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load users",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoadingUsers(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchUsers()
+    }
+  }, [currentUser, fetchUsers])
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50 flex items-center justify-center p-4">
+        <Loader2 className="w-10 h-10 animate-spin text-purple-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50">
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-8">
+        <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+          <CardHeader>
+            <div className="flex items-center justify-between flex-wrap gap-4">
+              <div className="flex items-center gap-4">
+                <div className="inline-flex items-center justify-center w-14 h-14 bg-gradient-to-tr from-violet-600 via-purple-600 to-fuchsia-600 rounded-2xl shadow-lg">
+                  <Settings className="w-7 h-7 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-4xl font-bold bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 bg-clip-text text-transparent">
+                    Admin Console
+                  </h1>
+                  <p className="text-slate-600 mt-1 text-lg">
+                    Signed in as <span className="font-semibold text-purple-600">@{currentUser.username}</span>
+                  </p>
+                </div>
+              </div>
+              <Button asChild variant="outline" className="border-2 border-purple-200 hover:bg-purple-50 bg-white/80">
+                <Link href="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to notes
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        <StorageHealth
+          totalUsers={users.length}
+          totalNotes={users.reduce((total, user) => total + user.noteCount, 0)}
+          totalAttachmentBytes={users.reduce((total, user) => total + user.attachmentBytes, 0)}
+        />
+
+        <StorageEncryption />
+
+        <UserManagement
+          users={users}
+          currentUserId={currentUser.id}
+          isLoading={isLoadingUsers}
+          onUsersChanged={fetchUsers}
+        />
+
+        <LockedAccounts />
+
+        <AuditLog />
+      </div>
+    </div>
+  )
+}
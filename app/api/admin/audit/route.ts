@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { findUserByUsername } from "@/lib/auth"
+import { AUDIT_ACTIONS, parseAuditQuery, queryAuditLog } from "@/lib/audit-log"
+
+/**
+ * GET /api/admin/audit?username=&action=&noteId=&from=&to=&limit=&offset=
+ * Searches the audit trail across all users, newest first. `username`
+ * narrows it to what one user did or had done to their account.
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const params = request.nextUrl.searchParams
+      const query = parseAuditQuery(params)
+      if (typeof query === "string") {
+        return NextResponse.json({ success: false, error: query }, { status: 400 })
+      }
+
+      const username = params.get("username")
+      if (username) {
+        const user = await findUserByUsername(username)
+        if (!user) {
+          return NextResponse.json({ success: true, events: [], hasMore: false, actions: AUDIT_ACTIONS })
+        }
+        query.userId = user.id
+      }
+
+      const { events, hasMore } = await queryAuditLog(query)
+
+      return NextResponse.json({ success: true, events, hasMore, actions: AUDIT_ACTIONS })
+    } catch (error) {
+      console.error("❌ GET /api/admin/audit error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { reencryptUserEntries } from "@/lib/storage"
+import { getEncryptionStatus, rotateDataKey } from "@/lib/storage-encryption"
+import { listUsers } from "@/lib/users"
+
+/**
+ * GET /api/admin/encryption
+ * Reports whether stored notes and attachments are encrypted at rest and which
+ * keys are in use
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      return NextResponse.json({ success: true, ...(await getEncryptionStatus()) })
+    } catch (error) {
+      console.error("❌ GET /api/admin/encryption error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
+
+/**
+ * POST /api/admin/encryption
+ * Re-encrypts every user's notes, revisions and attachments with the current
+ * data key. With `{ rotate: true }` a new data key is started first. Safe to
+ * run repeatedly; values that are up to date are skipped.
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const body = await request.json().catch(() => ({}))
+      const status = await getEncryptionStatus()
+
+      if (!status.enabled) {
+        return NextResponse.json(
+          { success: false, error: "Set STORAGE_MASTER_KEY to encrypt stored notes" },
+          { status: 409 },
+        )
+      }
+
+      if (body.rotate === true) {
+        await rotateDataKey()
+      }
+
+      const users = await listUsers()
+      let scanned = 0
+      let reencrypted = 0
+
+      for (const user of users) {
+        const result = await reencryptUserEntries(user.id)
+        scanned += result.scanned
+        reencrypted += result.reencrypted
+      }
+
+      console.log(
+        `🔐 Admin ${session.username} re-encrypted ${reencrypted} values across ${scanned} notes of ${users.length} users`,
+      )
+      await recordAuditEvent({
+        action: "admin.reencrypt",
+        actor: session,
+        client: getClientInfo(request.headers),
+        details: `${body.rotate === true ? "Rotated the data key and re-encrypted" : "Re-encrypted"} ${reencrypted} values`,
+      })
+
+      return NextResponse.json({
+        success: true,
+        ...(await getEncryptionStatus()),
+        users: users.length,
+        scanned,
+        reencrypted,
+      })
+    } catch (error) {
+      console.error("❌ POST /api/admin/encryption error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
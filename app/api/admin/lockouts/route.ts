@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listLockouts, unlock, THROTTLE_KINDS } from "@/lib/login-throttle"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+/**
+ * GET /api/admin/lockouts
+ * Lists usernames and IPs currently locked out after failed logins or
+ * two-factor codes
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const lockouts = await listLockouts()
+
+      return NextResponse.json({
+        success: true,
+        lockouts,
+        count: lockouts.length,
+      })
+    } catch (error) {
+      console.error("❌ GET /api/admin/lockouts error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
+
+/**
+ * DELETE /api/admin/lockouts
+ * Lifts a lockout early
+ */
+export const DELETE = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const body = await request.json()
+      const { kind, identifier } = body
+
+      if (!THROTTLE_KINDS.includes(kind) || !identifier) {
+        return NextResponse.json({ success: false, error: "Lockout kind and identifier are required" }, { status: 400 })
+      }
+
+      await unlock(kind, identifier)
+
+      console.log(`🔓 Admin ${session.username} unlocked ${kind} ${identifier}`)
+      await recordAuditEvent({
+        action: "admin.unlock",
+        actor: session,
+        client: getClientInfo(request.headers),
+        details: `Unlocked ${kind} ${identifier}`,
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: "Lockout lifted",
+      })
+    } catch (error) {
+      console.error("❌ DELETE /api/admin/lockouts error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { migrateUserEntries } from "@/lib/storage"
+import { CURRENT_SCHEMA_VERSION, listMigrations } from "@/lib/migrations"
+import { listUsers } from "@/lib/users"
+
+/**
+ * GET /api/admin/migrations
+ * Lists the note schema migrations and the current schema version
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    return NextResponse.json({
+      success: true,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      migrations: listMigrations(),
+    })
+  },
+  { role: "admin" },
+)
+
+/**
+ * POST /api/admin/migrations
+ * Migrates every user's notes to the current schema now, rather than as they
+ * are read. Safe to run repeatedly; notes that are up to date are skipped.
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const users = await listUsers()
+      let scanned = 0
+      let migrated = 0
+
+      for (const user of users) {
+        const result = await migrateUserEntries(user.id)
+        scanned += result.scanned
+        migrated += result.migrated
+      }
+
+      console.log(
+        `📦 Admin ${session.username} migrated ${migrated} of ${scanned} notes across ${users.length} users to schema version ${CURRENT_SCHEMA_VERSION}`,
+      )
+      await recordAuditEvent({
+        action: "admin.migrate",
+        actor: session,
+        client: getClientInfo(request.headers),
+        details: `Migrated ${migrated} of ${scanned} notes to schema version ${CURRENT_SCHEMA_VERSION}`,
+      })
+
+      return NextResponse.json({
+        success: true,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        users: users.length,
+        scanned,
+        migrated,
+      })
+    } catch (error) {
+      console.error("❌ POST /api/admin/migrations error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
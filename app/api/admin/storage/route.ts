@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorageInfo } from "@/lib/storage"
+import { withSession } from "@/lib/with-session"
+
+/**
+ * GET /api/admin/storage
+ * Reports which storage backend is active and how quickly it responds
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const startedAt = Date.now()
+      const storageInfo = await getStorageInfo()
+      const latencyMs = Date.now() - startedAt
+
+      return NextResponse.json({
+        success: true,
+        ...storageInfo,
+        latencyMs,
+        checkedAt: new Date().toISOString(),
+      })
+    } catch (error) {
+      console.error("❌ GET /api/admin/storage error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
@@ -0,0 +1,106 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getUserById, saveUser, validatePassword, USER_ROLES } from "@/lib/users"
+import { hashPassword } from "@/lib/passwords"
+import { getClientInfo, revokeAllUserSessions } from "@/lib/sessions"
+import { withSession } from "@/lib/with-session"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { getStorageUsage } from "@/lib/storage"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * PATCH /api/admin/users/[id]
+ * Changes a user's role, enables/disables the account or resets the password.
+ * Any of these signs the user out everywhere so the change applies immediately.
+ * Accounts with notes can't be moved in or out of the demo role: the demo
+ * sandbox replaces all of its user's notes with samples.
+ */
+export const PATCH = withSession<RouteContext>(
+  async (request: NextRequest, session, { params }) => {
+    try {
+      const { id } = await params
+      const body = await request.json()
+      const { role, disabled, password } = body
+
+      const user = await getUserById(id)
+      if (!user) {
+        return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+      }
+
+      if (role !== undefined && !USER_ROLES.includes(role)) {
+        return NextResponse.json({ success: false, error: "Invalid role" }, { status: 400 })
+      }
+
+      if (disabled !== undefined && typeof disabled !== "boolean") {
+        return NextResponse.json({ success: false, error: "Disabled must be a boolean" }, { status: 400 })
+      }
+
+      // Admins can't lock themselves out of the console
+      if (user.id === session.userId && ((role !== undefined && role !== "admin") || disabled === true)) {
+        return NextResponse.json(
+          { success: false, error: "You cannot demote or disable your own account" },
+          { status: 400 },
+        )
+      }
+
+      if (
+        role !== undefined &&
+        role !== user.role &&
+        (role === "demo" || user.role === "demo") &&
+        (await getStorageUsage(user.id)).notes > 0
+      ) {
+        return NextResponse.json(
+          { success: false, error: "Accounts with notes can't be switched to or from the demo role" },
+          { status: 409 },
+        )
+      }
+
+      const before = { role: user.role, disabled: !!user.disabled }
+
+      if (password !== undefined) {
+        const passwordError = validatePassword(password)
+        if (passwordError) {
+          return NextResponse.json({ success: false, error: passwordError }, { status: 400 })
+        }
+        user.passwordHash = await hashPassword(password)
+      }
+
+      if (role !== undefined) user.role = role
+      if (disabled !== undefined) user.disabled = disabled
+
+      await saveUser(user)
+      const revoked = await revokeAllUserSessions(user.id)
+
+      console.log(
+        `👤 Admin ${session.username} updated user ${user.username}: ${Object.keys(body).join(", ")} (${revoked} sessions revoked)`,
+      )
+      await recordAuditEvent({
+        action: "admin.user_update",
+        actor: session,
+        client: getClientInfo(request.headers),
+        userId: user.id,
+        before,
+        after: { role: user.role, disabled: !!user.disabled },
+        details: `Changed ${["role", "disabled", "password"].filter((field) => body[field] !== undefined).join(", ")}`,
+      })
+
+      return NextResponse.json({
+        success: true,
+        user: {
+          id: user.id,
+          username: user.username,
+          name: user.name,
+          role: user.role,
+          disabled: !!user.disabled,
+        },
+        message: "User updated successfully",
+      })
+    } catch (error) {
+      console.error("❌ PATCH /api/admin/users/[id] error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createUser, getUserByEmail, listUsers, validateNewUser, USER_ROLES, type User } from "@/lib/users"
+import { getUserEntries } from "@/lib/storage"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+async function toAdminUserSummary(user: User) {
+  const entries = await getUserEntries(user.id)
+  const attachmentBytes = entries.reduce(
+    (total, entry) => total + (entry.attachments || []).reduce((sum, attachment) => sum + attachment.size, 0),
+    0,
+  )
+
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    createdAt: user.createdAt,
+    disabled: !!user.disabled,
+    twoFactorEnabled: !!user.twoFactor?.secret,
+    noteCount: entries.length,
+    attachmentBytes,
+  }
+}
+
+/**
+ * GET /api/admin/users
+ * Lists all users with their note counts and attachment usage
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const users = await listUsers()
+      const summaries = await Promise.all(users.map(toAdminUserSummary))
+
+      return NextResponse.json({
+        success: true,
+        users: summaries,
+        count: summaries.length,
+      })
+    } catch (error) {
+      console.error("❌ GET /api/admin/users error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
+
+/**
+ * POST /api/admin/users
+ * Creates a user with any role
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const body = await request.json()
+      const { username, password, name, email, role } = body
+
+      const validationError = validateNewUser({ username, password, name, email })
+      if (validationError) {
+        return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+      }
+
+      if (role !== undefined && !USER_ROLES.includes(role)) {
+        return NextResponse.json({ success: false, error: "Invalid role" }, { status: 400 })
+      }
+
+      if (email && (await getUserByEmail(email))) {
+        return NextResponse.json({ success: false, error: "Email is already in use" }, { status: 409 })
+      }
+
+      const user = await createUser({ username, password, name, email, role })
+
+      if (!user) {
+        return NextResponse.json({ success: false, error: "Username is already taken" }, { status: 409 })
+      }
+
+      console.log(`👤 Admin ${session.username} created user ${user.username} (${user.role})`)
+      await recordAuditEvent({
+        action: "admin.user_create",
+        actor: session,
+        client: getClientInfo(request.headers),
+        userId: user.id,
+        details: `Created ${user.username} as ${user.role}`,
+      })
+
+      return NextResponse.json({
+        success: true,
+        user: await toAdminUserSummary(user),
+        message: "User created successfully",
+      })
+    } catch (error) {
+      console.error("❌ POST /api/admin/users error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { role: "admin" },
+)
@@ -0,0 +1,114 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { getUserAttachment } from "@/lib/storage"
+import { readBlob } from "@/lib/blob-store"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+type ByteRange = { start: number; end: number }
+
+/**
+ * Parses a single-range "bytes=" header against the file size. Returns null
+ * when the whole file should be sent (no header, or several ranges, which we
+ * don't support) and "unsatisfiable" when the range lies outside the file.
+ */
+function parseRange(header: string | null, size: number): ByteRange | "unsatisfiable" | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null
+  if (!match || (!match[1] && !match[2])) {
+    return null
+  }
+
+  let start: number
+  let end: number
+  if (!match[1]) {
+    // "bytes=-500" means the last 500 bytes
+    start = Math.max(size - Number(match[2]), 0)
+    end = size - 1
+  } else {
+    start = Number(match[1])
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  }
+
+  if (start > end || start >= size) {
+    return "unsatisfiable"
+  }
+
+  return { start, end }
+}
+
+// Plain ASCII fallback plus the RFC 5987 form, so non-Latin filenames survive
+function getContentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_")
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
+
+/**
+ * GET /api/attachments/[id]?noteId=
+ * Streams an attachment from the blob store. Supports single byte ranges so
+ * large downloads can resume. Pass the note the attachment is on as `noteId`
+ * so only that note is read; without it all of the user's notes are searched.
+ * Accepts API tokens with the attachments:read scope.
+ */
+export const GET = withSession<RouteContext>(
+  async (request: NextRequest, session, { params }) => {
+    try {
+      const { id } = await params
+
+      const noteId = request.nextUrl.searchParams.get("noteId") || undefined
+      const attachment = await getUserAttachment(session.userId, id, noteId)
+      if (!attachment?.hash) {
+        return NextResponse.json({ success: false, error: "Attachment not found" }, { status: 404 })
+      }
+
+      const etag = `"${attachment.hash}"`
+      const headers = new Headers({
+        "Content-Type": attachment.mimeType || "application/octet-stream",
+        // An encrypted file's real name is ciphertext that only the browser can read
+        "Content-Disposition": getContentDisposition(attachment.encrypted ? "encrypted.bin" : attachment.filename),
+        "Accept-Ranges": "bytes",
+        ETag: etag,
+        "Cache-Control": "private, no-cache",
+        // Uploaded files are never rendered as part of the app
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "sandbox",
+      })
+
+      if (request.headers.get("if-none-match") === etag) {
+        return new Response(null, { status: 304, headers })
+      }
+
+      // A range only applies if the client's copy is still current
+      const ifRange = request.headers.get("if-range")
+      const range =
+        ifRange && ifRange !== etag ? null : parseRange(request.headers.get("range"), attachment.size)
+
+      if (range === "unsatisfiable") {
+        headers.set("Content-Range", `bytes */${attachment.size}`)
+        return new Response(null, { status: 416, headers })
+      }
+
+      const stream = await readBlob(attachment.hash, range ?? undefined)
+      if (!stream) {
+        console.error(`❌ Blob ${attachment.hash} for attachment ${id} is missing`)
+        return NextResponse.json({ success: false, error: "Attachment data is missing" }, { status: 404 })
+      }
+
+      if (range) {
+        headers.set("Content-Range", `bytes ${range.start}-${range.end}/${attachment.size}`)
+        headers.set("Content-Length", String(range.end - range.start + 1))
+        return new Response(stream, { status: 206, headers })
+      }
+
+      console.log(`📎 User ${session.username} (ID: ${session.userId}) downloaded attachment: ${attachment.id}`)
+
+      headers.set("Content-Length", String(attachment.size))
+      return new Response(stream, { status: 200, headers })
+    } catch (error) {
+      console.error("❌ GET /api/attachments/[id] error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "attachments:read" },
+)
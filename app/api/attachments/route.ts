@@ -0,0 +1,117 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { createPendingUpload, readUploadedFile, MAX_PENDING_UPLOADS } from "@/lib/uploads"
+import { isMimeTypeAllowed, sniffMimeType, SNIFF_LENGTH } from "@/lib/file-types"
+import { getStorageUsage } from "@/lib/storage"
+import { getRoleQuota } from "@/lib/users"
+import { isEncryptedText } from "@/lib/vault-crypto"
+
+// Room for multipart boundaries and part headers on top of the file itself
+const MULTIPART_OVERHEAD = 64 * 1024
+
+// An encrypted upload's filename holds its real name and type as ciphertext
+const MAX_ENCRYPTED_FILENAME_LENGTH = 1024
+
+/**
+ * POST /api/attachments
+ * Accepts a multipart upload with a single "file" field and returns the
+ * attachment to reference from POST/PUT /api/content. The role's size limits
+ * are enforced while streaming and the type is taken from the file's content.
+ * With `?encrypted=true` the file and its filename are vault ciphertext, so
+ * the type can't be checked and is stored as application/octet-stream.
+ * Files waiting to be attached count toward the storage quota, and only
+ * MAX_PENDING_UPLOADS may wait at once (429). Accepts API tokens with the
+ * notes:write scope.
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const contentType = request.headers.get("content-type") || ""
+      if (!contentType.startsWith("multipart/form-data") || !request.body) {
+        return NextResponse.json({ success: false, error: "Expected a multipart/form-data upload" }, { status: 400 })
+      }
+
+      // A file can't be bigger than the role allows per file, nor than the storage left in its quota
+      const quota = getRoleQuota(session.role)
+      const usage = await getStorageUsage(session.userId)
+      if (usage.pendingUploads >= MAX_PENDING_UPLOADS) {
+        return NextResponse.json(
+          { success: false, error: "Too many files waiting to be attached - save or discard your notes first" },
+          { status: 429 },
+        )
+      }
+      const remaining = Math.max(quota.maxStorageBytes - usage.attachmentBytes - usage.pendingUploadBytes, 0)
+      const maxSize = Math.min(quota.maxFileSize, remaining)
+      const tooLarge = NextResponse.json(
+        {
+          success: false,
+          error:
+            maxSize < quota.maxFileSize
+              ? "Not enough storage left in your quota for this file"
+              : `File is too large (max ${Math.round(maxSize / 1024)}KB)`,
+        },
+        { status: 413 },
+      )
+
+      // Reject obviously oversized bodies before reading any of them
+      if (Number(request.headers.get("content-length")) > maxSize + MULTIPART_OVERHEAD) {
+        return tooLarge
+      }
+
+      let upload
+      try {
+        upload = await readUploadedFile(request.body, { "content-type": contentType }, maxSize)
+      } catch (error) {
+        console.error("❌ Failed to parse upload:", error)
+        return NextResponse.json({ success: false, error: "Malformed multipart upload" }, { status: 400 })
+      }
+
+      if (upload.status === "too_large") {
+        console.log(`⚠️ User ${session.username} (ID: ${session.userId}) sent an upload over ${maxSize} bytes`)
+        return tooLarge
+      }
+
+      if (upload.status === "missing") {
+        return NextResponse.json({ success: false, error: "No file was uploaded" }, { status: 400 })
+      }
+
+      const encrypted = request.nextUrl.searchParams.get("encrypted") === "true"
+      if (
+        encrypted &&
+        (!isEncryptedText(upload.filename) || upload.filename.length > MAX_ENCRYPTED_FILENAME_LENGTH)
+      ) {
+        return NextResponse.json(
+          { success: false, error: "Encrypted uploads need an encrypted filename" },
+          { status: 400 },
+        )
+      }
+
+      const mimeType = encrypted
+        ? "application/octet-stream"
+        : sniffMimeType(upload.data.subarray(0, SNIFF_LENGTH), upload.declaredType)
+      if (!encrypted && !isMimeTypeAllowed(mimeType)) {
+        console.log(`⚠️ User ${session.username} (ID: ${session.userId}) uploaded a disallowed ${mimeType} file`)
+        return NextResponse.json(
+          { success: false, error: `Files of type ${mimeType} are not allowed` },
+          { status: 415 },
+        )
+      }
+
+      const attachment = await createPendingUpload(session.userId, upload.filename, mimeType, upload.data, encrypted)
+
+      console.log(
+        `📎 User ${session.username} (ID: ${session.userId}) uploaded ${encrypted ? "an encrypted file" : attachment.filename} (${mimeType}, ${attachment.size} bytes)`,
+      )
+
+      return NextResponse.json({
+        success: true,
+        attachment,
+        message: "File uploaded",
+      })
+    } catch (error) {
+      console.error("❌ POST /api/attachments error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:write" },
+)
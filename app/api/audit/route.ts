@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { parseAuditQuery, queryAuditLog } from "@/lib/audit-log"
+
+/**
+ * GET /api/audit?action=&noteId=&from=&to=&limit=&offset=
+ * The signed-in user's audit trail, newest first: everything they did and
+ * everything done to their account or notes
+ */
+export const GET = withSession(async (request: NextRequest, session) => {
+  try {
+    const query = parseAuditQuery(request.nextUrl.searchParams)
+    if (typeof query === "string") {
+      return NextResponse.json({ success: false, error: query }, { status: 400 })
+    }
+
+    const { events, hasMore } = await queryAuditLog({ ...query, userId: session.userId })
+
+    return NextResponse.json({ success: true, events, hasMore })
+  } catch (error) {
+    console.error("❌ GET /api/audit error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
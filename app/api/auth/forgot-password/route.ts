@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAppUrl, requestPasswordReset } from "@/lib/password-reset"
+
+/**
+ * POST /api/auth/forgot-password
+ * Mails a reset link for the given username or email. Always reports success
+ * so the response doesn't reveal which accounts exist.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { identifier } = body
+
+    if (!identifier || typeof identifier !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Username or email is required" },
+        { status: 400 }
+      )
+    }
+
+    const appUrl = getAppUrl()
+    if (!appUrl) {
+      console.error("❌ APP_URL must be set in production to send password reset links")
+      return NextResponse.json(
+        { success: false, error: "Password reset is not available" },
+        { status: 503 }
+      )
+    }
+
+    await requestPasswordReset(identifier, appUrl)
+
+    return NextResponse.json({
+      success: true,
+      message: "If an account matches, a reset link is on its way",
+    })
+  } catch (error) {
+    console.error("❌ Forgot password error:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
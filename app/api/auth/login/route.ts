@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from "next/server"
-import { authenticateUser, createSessionToken } from "@/lib/auth"
+import { authenticateUser, findUserByUsername, startSession } from "@/lib/auth"
+import { getClientInfo } from "@/lib/sessions"
+import { setSessionCookie } from "@/lib/session-cookie"
+import { checkLoginThrottle, clearFailedLogins, recordFailedLogin, tooManyAttemptsResponse } from "@/lib/login-throttle"
+import { recordAuditEvent } from "@/lib/audit-log"
 
+/**
+ * POST /api/auth/login
+ * Sets the HttpOnly session cookie. Non-browser clients can pass
+ * `returnToken: true` to also receive the token for use as a Bearer credential.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { username, password } = body
+    const { username, password, returnToken } = body
 
     if (!username || !password) {
       return NextResponse.json(
@@ -13,22 +22,58 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const user = await authenticateUser(username, password)
+    const client = getClientInfo(request.headers)
+    const throttle = await checkLoginThrottle(username, client.ip)
 
-    if (!user) {
+    if (!throttle.allowed) {
+      console.log(`🚫 Throttled login for ${username} from ${client.ip}`)
+      return tooManyAttemptsResponse(throttle.retryAfterSeconds)
+    }
+
+    const result = await authenticateUser(username, password)
+
+    if (result.status === "invalid") {
+      await recordFailedLogin(username, client.ip)
+      await recordAuditEvent({
+        action: "auth.login_failed",
+        client,
+        userId: (await findUserByUsername(username))?.id,
+        details: `Wrong password for ${username}`,
+      })
       return NextResponse.json(
         { success: false, error: "Invalid credentials" },
         { status: 401 }
       )
     }
 
-    const token = createSessionToken(user)
+    await clearFailedLogins(username)
+
+    if (result.status === "disabled") {
+      return NextResponse.json(
+        { success: false, error: "This account has been disabled" },
+        { status: 403 }
+      )
+    }
+
+    if (result.status === "second_factor_required") {
+      console.log(`🔑 User ${result.user.username} passed the password step, awaiting second factor`)
+
+      return NextResponse.json({
+        success: false,
+        secondFactorRequired: true,
+        challenge: result.challenge,
+      })
+    }
+
+    const { user } = result
+    const { token, expiresAt } = await startSession(user, client)
 
     console.log(`✅ User ${user.username} (${user.name}) logged in successfully`)
+    await recordAuditEvent({ action: "auth.login", actor: { userId: user.id, username: user.username }, client })
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
-      token,
+      ...(returnToken ? { token } : {}),
       user: {
         id: user.id,
         username: user.username,
@@ -36,6 +81,9 @@ export async function POST(request: NextRequest) {
         role: user.role,
       },
     })
+    setSessionCookie(response, token, expiresAt)
+
+    return response
   } catch (error) {
     console.error("❌ Login error:", error)
     return NextResponse.json(
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getClientInfo, revokeAllUserSessions } from "@/lib/sessions"
+import { clearSessionCookie } from "@/lib/session-cookie"
+import { withSession } from "@/lib/with-session"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+/**
+ * POST /api/auth/logout-all
+ * Signs the user out of every device, including the current one
+ */
+export const POST = withSession(async (request: NextRequest, session) => {
+  try {
+    const revoked = await revokeAllUserSessions(session.userId)
+
+    console.log(`👋 User ${session.username} (ID: ${session.userId}) signed out of ${revoked} sessions`)
+    await recordAuditEvent({
+      action: "auth.logout_all",
+      actor: session,
+      client: getClientInfo(request.headers),
+      details: `${revoked} sessions revoked`,
+    })
+
+    const response = NextResponse.json({
+      success: true,
+      revoked,
+      message: "Signed out of all devices",
+    })
+    clearSessionCookie(response)
+
+    return response
+  } catch (error) {
+    console.error("❌ Logout-all error:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { resolveSession } from "@/lib/auth"
+import { getClientInfo, revokeSession } from "@/lib/sessions"
+import { resetDemoData } from "@/lib/demo"
+import { clearSessionCookie } from "@/lib/session-cookie"
+import { getRequestToken } from "@/lib/with-session"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = getRequestToken(request)
+    const session = token ? await resolveSession(token) : null
+
+    // Signing out an already invalid session is not an error
+    if (session) {
+      await revokeSession(session.sessionId)
+      if (session.role === "demo") {
+        await resetDemoData(session.userId)
+      }
+      console.log(`👋 User ${session.username} (ID: ${session.userId}) logged out`)
+      await recordAuditEvent({ action: "auth.logout", actor: session, client: getClientInfo(request.headers) })
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Logged out successfully",
+    })
+    clearSessionCookie(response)
+
+    return response
+  } catch (error) {
+    console.error("❌ Logout error:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { findUserById } from "@/lib/auth"
+import { hashPassword, verifyPassword } from "@/lib/passwords"
+import { getClientInfo, revokeAllUserSessions } from "@/lib/sessions"
+import { checkLoginThrottle, recordFailedLogin, tooManyAttemptsResponse } from "@/lib/login-throttle"
+import { saveUser, validatePassword } from "@/lib/users"
+import { withSession } from "@/lib/with-session"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+/**
+ * POST /api/auth/password
+ * Changes the signed-in user's password. Requires the current password and
+ * signs out every other session.
+ */
+export const POST = withSession(async (request: NextRequest, session) => {
+  try {
+    if (session.role === "demo") {
+      return NextResponse.json(
+        { success: false, error: "Demo accounts cannot change their password" },
+        { status: 403 },
+      )
+    }
+
+    const body = await request.json()
+    const { currentPassword, newPassword } = body
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { success: false, error: "Current and new password are required" },
+        { status: 400 },
+      )
+    }
+
+    const passwordError = validatePassword(newPassword)
+    if (passwordError) {
+      return NextResponse.json({ success: false, error: passwordError }, { status: 400 })
+    }
+
+    // Wrong current passwords count towards the same lockout as failed logins
+    const client = getClientInfo(request.headers)
+    const throttle = await checkLoginThrottle(session.username, client.ip)
+    if (!throttle.allowed) {
+      return tooManyAttemptsResponse(throttle.retryAfterSeconds)
+    }
+
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    const { valid } = await verifyPassword(currentPassword, user.passwordHash)
+    if (!valid) {
+      await recordFailedLogin(session.username, client.ip)
+      return NextResponse.json({ success: false, error: "Current password is incorrect" }, { status: 400 })
+    }
+
+    user.passwordHash = await hashPassword(newPassword)
+    await saveUser(user)
+    const revoked = await revokeAllUserSessions(user.id, session.sessionId)
+
+    console.log(`🔑 User ${session.username} (ID: ${session.userId}) changed their password (${revoked} other sessions revoked)`)
+    await recordAuditEvent({
+      action: "auth.password_change",
+      actor: session,
+      client,
+      details: `${revoked} other sessions revoked`,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: "Password changed successfully",
+    })
+  } catch (error) {
+    console.error("❌ POST /api/auth/password error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { startSession } from "@/lib/auth"
+import { getClientInfo } from "@/lib/sessions"
+import { setSessionCookie } from "@/lib/session-cookie"
+import { createUser, getUserByEmail, validateNewUser } from "@/lib/users"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+function isRegistrationEnabled(): boolean {
+  return process.env.REGISTRATION_ENABLED !== "false"
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isRegistrationEnabled()) {
+      return NextResponse.json(
+        { success: false, error: "Registration is disabled" },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { username, password, name, email, returnToken } = body
+
+    const validationError = validateNewUser({ username, password, name, email })
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      )
+    }
+
+    if (email && (await getUserByEmail(email))) {
+      return NextResponse.json(
+        { success: false, error: "Email is already in use" },
+        { status: 409 }
+      )
+    }
+
+    const user = await createUser({ username, password, name, email })
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Username is already taken" },
+        { status: 409 }
+      )
+    }
+
+    const client = getClientInfo(request.headers)
+    const { token, expiresAt } = await startSession(user, client)
+
+    console.log(`✅ User ${user.username} (${user.name}) registered successfully`)
+    await recordAuditEvent({ action: "auth.register", actor: { userId: user.id, username: user.username }, client })
+
+    const response = NextResponse.json({
+      success: true,
+      ...(returnToken ? { token } : {}),
+      user: {
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        role: user.role,
+      },
+    })
+    setSessionCookie(response, token, expiresAt)
+
+    return response
+  } catch (error) {
+    console.error("❌ Registration error:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
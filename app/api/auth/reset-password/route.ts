@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { resetPassword } from "@/lib/password-reset"
+import { validatePassword } from "@/lib/users"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+/**
+ * POST /api/auth/reset-password
+ * Sets a new password using the single-use token from a reset email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token, password } = body
+
+    if (!token || typeof token !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Reset token is required" },
+        { status: 400 }
+      )
+    }
+
+    const passwordError = validatePassword(password)
+    if (passwordError) {
+      return NextResponse.json(
+        { success: false, error: passwordError },
+        { status: 400 }
+      )
+    }
+
+    const user = await resetPassword(token, password)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "This reset link is invalid or has expired" },
+        { status: 400 }
+      )
+    }
+
+    console.log(`🔑 User ${user.username} (ID: ${user.id}) reset their password`)
+    await recordAuditEvent({
+      action: "auth.password_reset",
+      actor: { userId: user.id, username: user.username },
+      client: getClientInfo(request.headers),
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: "Password updated. You can now sign in.",
+    })
+  } catch (error) {
+    console.error("❌ Reset password error:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
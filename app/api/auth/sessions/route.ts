@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { findUserByUsername, type AuthSession } from "@/lib/auth"
+import { getClientInfo, getSessionRecord, listUserSessions, revokeSession, type SessionRecord } from "@/lib/sessions"
+import { withSession } from "@/lib/with-session"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+function toSessionSummary(record: SessionRecord, session: AuthSession) {
+  return {
+    id: record.id,
+    userAgent: record.userAgent,
+    ip: record.ip,
+    createdAt: record.createdAt,
+    lastSeenAt: record.lastSeenAt,
+    expiresAt: record.expiresAt,
+    current: record.id === session.sessionId,
+  }
+}
+
+/**
+ * GET /api/auth/sessions
+ * Lists active sessions for the user; admins may pass ?username= to inspect another user
+ */
+export const GET = withSession(async (request: NextRequest, session) => {
+  try {
+    const url = new URL(request.url)
+    const username = url.searchParams.get("username")
+
+    let target = { id: session.userId, username: session.username, name: session.name }
+
+    if (username && username.toLowerCase() !== session.username.toLowerCase()) {
+      if (session.role !== "admin") {
+        return NextResponse.json({ success: false, error: "Admin access required" }, { status: 403 })
+      }
+
+      const user = await findUserByUsername(username)
+      if (!user) {
+        return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+      }
+      target = { id: user.id, username: user.username, name: user.name }
+    }
+
+    const sessions = await listUserSessions(target.id)
+
+    return NextResponse.json({
+      success: true,
+      user: target,
+      sessions: sessions.map((record) => toSessionSummary(record, session)),
+    })
+  } catch (error) {
+    console.error("❌ GET /api/auth/sessions error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+/**
+ * DELETE /api/auth/sessions
+ * Revokes a single session owned by the user, or any session for admins
+ */
+export const DELETE = withSession(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json()
+    const { sessionId } = body
+
+    if (!sessionId) {
+      return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
+    }
+
+    const record = await getSessionRecord(sessionId)
+    if (!record || (record.userId !== session.userId && session.role !== "admin")) {
+      return NextResponse.json({ success: false, error: "Session not found or access denied" }, { status: 404 })
+    }
+
+    await revokeSession(sessionId)
+
+    console.log(`🔒 User ${session.username} (ID: ${session.userId}) revoked session ${sessionId}`)
+    await recordAuditEvent({
+      action: "auth.session_revoke",
+      actor: session,
+      client: getClientInfo(request.headers),
+      userId: record.userId,
+      details: `Session ${sessionId}`,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: "Session revoked successfully",
+    })
+  } catch (error) {
+    console.error("❌ DELETE /api/auth/sessions error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
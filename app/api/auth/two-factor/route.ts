@@ -0,0 +1,162 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { findUserById } from "@/lib/auth"
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  readSecondFactorInput,
+  verifySecondFactor,
+} from "@/lib/two-factor"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import {
+  checkSecondFactorThrottle,
+  clearFailedSecondFactors,
+  recordFailedSecondFactor,
+  tooManyAttemptsResponse,
+} from "@/lib/login-throttle"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+/**
+ * GET /api/auth/two-factor
+ * Returns the user's two-factor status
+ */
+export const GET = withSession(async (request: NextRequest, session) => {
+  try {
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      enabled: isTwoFactorEnabled(user),
+      enabledAt: user.twoFactor?.enabledAt,
+      recoveryCodesRemaining: user.twoFactor?.secret ? user.twoFactor.recoveryCodeHashes.length : 0,
+    })
+  } catch (error) {
+    console.error("❌ GET /api/auth/two-factor error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/auth/two-factor
+ * Starts enrollment and returns the secret to show as a QR code
+ */
+export const POST = withSession(async (request: NextRequest, session) => {
+  try {
+    // The demo account is shared, so nobody may lock it behind their own authenticator
+    if (session.role === "demo") {
+      return NextResponse.json(
+        { success: false, error: "Two-factor authentication is not available for demo accounts" },
+        { status: 403 },
+      )
+    }
+
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    if (isTwoFactorEnabled(user)) {
+      return NextResponse.json({ success: false, error: "Two-factor authentication is already enabled" }, { status: 409 })
+    }
+
+    const { secret, otpauthUri } = await beginTwoFactorEnrollment(user)
+
+    return NextResponse.json({ success: true, secret, otpauthUri })
+  } catch (error) {
+    console.error("❌ POST /api/auth/two-factor error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+/**
+ * PUT /api/auth/two-factor
+ * Confirms enrollment with a code from the authenticator app and returns recovery codes
+ */
+export const PUT = withSession(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json()
+    const { code } = body
+
+    if (typeof code !== "string" || !code) {
+      return NextResponse.json({ success: false, error: "Verification code is required" }, { status: 400 })
+    }
+
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(user, code)
+    if (!recoveryCodes) {
+      return NextResponse.json({ success: false, error: "Invalid verification code" }, { status: 400 })
+    }
+
+    console.log(`🔐 User ${session.username} (ID: ${session.userId}) enabled two-factor authentication`)
+    await recordAuditEvent({ action: "auth.two_factor_enable", actor: session, client: getClientInfo(request.headers) })
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+      message: "Two-factor authentication enabled",
+    })
+  } catch (error) {
+    console.error("❌ PUT /api/auth/two-factor error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+/**
+ * DELETE /api/auth/two-factor
+ * Disables two-factor authentication; requires a current code or a recovery
+ * code. Wrong codes count toward the same lockout as at sign-in, so a stolen
+ * session can't be used to guess its way past the second factor.
+ */
+export const DELETE = withSession(async (request: NextRequest, session) => {
+  try {
+    const input = readSecondFactorInput(await request.json())
+    if (!input || (!input.code && !input.recoveryCode)) {
+      return NextResponse.json({ success: false, error: "Verification code is required" }, { status: 400 })
+    }
+
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    if (!isTwoFactorEnabled(user)) {
+      return NextResponse.json({ success: false, error: "Two-factor authentication is not enabled" }, { status: 400 })
+    }
+
+    const client = getClientInfo(request.headers)
+    const throttle = await checkSecondFactorThrottle(user.username, client.ip)
+    if (!throttle.allowed) {
+      console.log(`🚫 Throttled disabling two-factor for ${user.username} from ${client.ip}`)
+      return tooManyAttemptsResponse(throttle.retryAfterSeconds)
+    }
+
+    if (!(await verifySecondFactor(user, input))) {
+      await recordFailedSecondFactor(user.username, client.ip)
+      return NextResponse.json({ success: false, error: "Invalid verification code" }, { status: 400 })
+    }
+
+    await clearFailedSecondFactors(user.username)
+
+    await disableTwoFactor(user)
+
+    console.log(`🔓 User ${session.username} (ID: ${session.userId}) disabled two-factor authentication`)
+    await recordAuditEvent({ action: "auth.two_factor_disable", actor: session, client })
+
+    return NextResponse.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    })
+  } catch (error) {
+    console.error("❌ DELETE /api/auth/two-factor error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
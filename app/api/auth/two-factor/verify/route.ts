@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { completeSecondFactor, getSecondFactorChallenge, startSession } from "@/lib/auth"
+import { readSecondFactorInput } from "@/lib/two-factor"
+import { getClientInfo } from "@/lib/sessions"
+import { setSessionCookie } from "@/lib/session-cookie"
+import {
+  checkSecondFactorThrottle,
+  clearFailedSecondFactors,
+  recordFailedSecondFactor,
+  tooManyAttemptsResponse,
+} from "@/lib/login-throttle"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+/**
+ * POST /api/auth/two-factor/verify
+ * Second login step: exchanges the challenge from /api/auth/login plus a TOTP
+ * or recovery code for a session. A challenge stops working after a few wrong
+ * codes, and failures lock out the user and IP however many challenges are used.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { challenge, returnToken } = body
+    const input = readSecondFactorInput(body)
+
+    if (typeof challenge !== "string" || !input || (!input.code && !input.recoveryCode)) {
+      return NextResponse.json(
+        { success: false, error: "Challenge and a verification code are required" },
+        { status: 400 }
+      )
+    }
+
+    const pending = await getSecondFactorChallenge(challenge)
+    if (!pending) {
+      return NextResponse.json(
+        { success: false, error: "This sign-in has expired or had too many wrong codes. Please sign in again." },
+        { status: 401 }
+      )
+    }
+
+    // Codes are short, so guesses are throttled per user and IP like passwords
+    const { user } = pending
+    const client = getClientInfo(request.headers)
+    const throttle = await checkSecondFactorThrottle(user.username, client.ip)
+
+    if (!throttle.allowed) {
+      console.log(`🚫 Throttled two-factor verification for ${user.username} from ${client.ip}`)
+      return tooManyAttemptsResponse(throttle.retryAfterSeconds)
+    }
+
+    if (!(await completeSecondFactor(pending, input))) {
+      await recordFailedSecondFactor(user.username, client.ip)
+      await recordAuditEvent({
+        action: "auth.login_failed",
+        client,
+        userId: user.id,
+        details: `Wrong two-factor code for ${user.username}`,
+      })
+      return NextResponse.json(
+        { success: false, error: "Invalid or expired verification code" },
+        { status: 401 }
+      )
+    }
+
+    await clearFailedSecondFactors(user.username)
+
+    const { token, expiresAt } = await startSession(user, client)
+
+    console.log(`✅ User ${user.username} (${user.name}) logged in with two-factor authentication`)
+    await recordAuditEvent({
+      action: "auth.login",
+      actor: { userId: user.id, username: user.username },
+      client,
+      details: "With two-factor authentication",
+    })
+
+    const response = NextResponse.json({
+      success: true,
+      ...(returnToken ? { token } : {}),
+      user: {
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        role: user.role,
+      },
+    })
+    setSessionCookie(response, token, expiresAt)
+
+    return response
+  } catch (error) {
+    console.error("❌ Two-factor verification error:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
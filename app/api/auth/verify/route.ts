@@ -1,28 +1,33 @@
 import { NextRequest, NextResponse } from "next/server"
-import { verifySessionToken, findUserById } from "@/lib/auth"
+import { resolveSessionWithReason, findUserById, TOKEN_REJECTION_MESSAGES } from "@/lib/auth"
+import { getClientInfo } from "@/lib/sessions"
+import { clearSessionCookie } from "@/lib/session-cookie"
+import { getRequestToken } from "@/lib/with-session"
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { token } = body
+    const token = getRequestToken(request)
 
     if (!token) {
       return NextResponse.json(
-        { success: false, error: "Token is required" },
-        { status: 400 }
+        { success: false, error: "Not signed in" },
+        { status: 401 }
       )
     }
 
-    const session = verifySessionToken(token)
+    const verification = await resolveSessionWithReason(token, getClientInfo(request.headers))
 
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: "Invalid or expired token" },
+    if (!verification.valid) {
+      const response = NextResponse.json(
+        { success: false, error: TOKEN_REJECTION_MESSAGES[verification.reason], reason: verification.reason },
         { status: 401 }
       )
+      clearSessionCookie(response)
+      return response
     }
 
-    const user = findUserById(session.userId)
+    const { session } = verification
+    const user = await findUserById(session.userId)
 
     if (!user) {
       return NextResponse.json(
@@ -1,22 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { verifySessionToken } from "@/lib/auth"
+import { withSession } from "@/lib/with-session"
 import { generateText } from "ai"
 import { createGoogleGenerativeAI } from "@ai-sdk/google"
 
-export async function POST(request: NextRequest) {
+export const POST = withSession(async (request: NextRequest, session) => {
   try {
     const body = await request.json()
-    const { message, token } = body
-
-    // Verify authentication
-    if (!token) {
-      return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 })
-    }
-
-    const session = verifySessionToken(token)
-    if (!session) {
-      return NextResponse.json({ success: false, error: "Invalid or expired token" }, { status: 401 })
-    }
+    const { message } = body
 
     // Check if message is provided
     if (!message || typeof message !== "string") {
@@ -94,4 +84,4 @@ Please provide a helpful, concise response. If they're asking about note-taking,
       { status: 503 },
     )
   }
-}
+})
@@ -0,0 +1,127 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { getUserEntry, updateUserEntry } from "@/lib/storage"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { getClientInfo } from "@/lib/sessions"
+import { getRevisions } from "@/lib/revisions"
+import { getRoleQuota } from "@/lib/users"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/content/[id]/revisions
+ * Returns the note's revision history, newest first. Accepts API tokens with
+ * the notes:read scope.
+ */
+export const GET = withSession<RouteContext>(
+  async (request: NextRequest, session, { params }) => {
+    try {
+      const { id } = await params
+
+      const entry = await getUserEntry(session.userId, id)
+      if (!entry) {
+        return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
+      }
+
+      const revisions = await getRevisions(session.userId, id)
+
+      return NextResponse.json({
+        success: true,
+        revisions,
+        currentVersion: entry.version,
+      })
+    } catch (error) {
+      console.error("❌ GET /api/content/[id]/revisions error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:read" },
+)
+
+/**
+ * POST /api/content/[id]/revisions
+ * Restores the revision with the given `version` by saving its title, content
+ * and attachments as a new version, so the history itself is never rewritten.
+ * Attachments that have since been removed from the note can't be brought back.
+ * Accepts API tokens with the notes:write scope.
+ */
+export const POST = withSession<RouteContext>(
+  async (request: NextRequest, session, { params }) => {
+    try {
+      const { id } = await params
+      const { version } = await request.json()
+
+      if (!Number.isInteger(version)) {
+        return NextResponse.json({ success: false, error: "Version is required" }, { status: 400 })
+      }
+
+      const entry = await getUserEntry(session.userId, id)
+      if (!entry) {
+        return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
+      }
+
+      const revision = (await getRevisions(session.userId, id)).find((item) => item.version === version)
+      if (!revision) {
+        return NextResponse.json({ success: false, error: "Revision not found" }, { status: 404 })
+      }
+
+      const result = await updateUserEntry(
+        session.userId,
+        id,
+        entry.version,
+        revision.title,
+        revision.content,
+        revision.attachmentIds.map((attachmentId) => ({ id: attachmentId })),
+        { author: session.username, quota: getRoleQuota(session.role) },
+      )
+
+      if (result.status === "not_found") {
+        return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
+      }
+
+      if (result.status === "quota_exceeded") {
+        return NextResponse.json(
+          { success: false, error: result.violation.error },
+          { status: result.violation.status },
+        )
+      }
+
+      if (result.status === "conflict") {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "This note was changed while restoring; try again",
+            conflict: true,
+            entry: result.current,
+          },
+          { status: 409 },
+        )
+      }
+
+      console.log(
+        `⏪ User ${session.username} (ID: ${session.userId}) restored entry ${id} to version ${version} as version ${result.entry.version}`,
+      )
+      await recordAuditEvent({
+        action: "note.revert",
+        actor: session,
+        client: getClientInfo(request.headers),
+        noteId: id,
+        before: entry,
+        after: result.entry,
+        details: `Restored version ${version}`,
+      })
+
+      return NextResponse.json({
+        success: true,
+        entry: result.entry,
+        message: `Restored version ${version}`,
+      })
+    } catch (error) {
+      console.error("❌ POST /api/content/[id]/revisions error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:write" },
+)
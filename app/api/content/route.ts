@@ -1,174 +1,348 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { verifySessionToken } from "@/lib/auth"
-import { getUserEntries, createUserEntry, updateUserEntry, deleteUserEntry, getStorageInfo } from "@/lib/storage"
+import { withSession } from "@/lib/with-session"
+import {
+  getUserEntries,
+  getUserEntry,
+  createUserEntry,
+  updateUserEntry,
+  trashUserEntry,
+  purgeExpiredTrash,
+  getStorageInfo,
+  getStorageUsage,
+} from "@/lib/storage"
+import { getRoleQuota } from "@/lib/users"
+import { findUserById } from "@/lib/auth"
+import { checkDemoLimits, ensureDemoSandbox, DEMO_LIMITS } from "@/lib/demo"
+import { isEncryptedText, maxEncryptedLength } from "@/lib/vault-crypto"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { getClientInfo } from "@/lib/sessions"
+import { countTags, hasAllTags, normalizeTag, parseTagList } from "@/lib/tags"
+
+const MAX_TITLE_LENGTH = 100
+const MAX_CONTENT_LENGTH = 5000
+
+// Notes reference attachments by ID; the files themselves are uploaded first via POST /api/attachments
+function isAttachmentList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.every((item) => typeof item?.id === "string")
+}
 
-/**
- * GET /api/content
- * Returns user's entries
- */
-export async function GET(request: NextRequest) {
-  try {
-    // Get token from URL params for GET requests
-    const url = new URL(request.url)
-    const token = url.searchParams.get("token")
-
-    if (!token) {
-      return NextResponse.json({ success: false, error: "Authentication token required" }, { status: 401 })
+// Encrypted notes are only ever ciphertext here, so their limits allow for what encryption adds
+function validateNoteText(title: string, content: string, encrypted: boolean): string | null {
+  if (encrypted) {
+    if (!isEncryptedText(title) || !isEncryptedText(content)) {
+      return "Encrypted notes must be encrypted in the browser before saving"
     }
-
-    const session = verifySessionToken(token)
-    if (!session) {
-      return NextResponse.json({ success: false, error: "Invalid or expired token" }, { status: 401 })
+    if (title.length > maxEncryptedLength(MAX_TITLE_LENGTH) || content.length > maxEncryptedLength(MAX_CONTENT_LENGTH)) {
+      return "Encrypted note too long"
     }
+    return null
+  }
 
-    const entries = await getUserEntries(session.userId)
-    const storageInfo = await getStorageInfo()
-
-    console.log(`📖 User ${session.username} (ID: ${session.userId}) fetched ${entries.length} entries`)
-
-    return NextResponse.json({
-      success: true,
-      entries,
-      count: entries.length,
-      lastModified: new Date().toISOString(),
-      ...storageInfo,
-    })
-  } catch (error) {
-    console.error("❌ GET /api/content error:", error)
-    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  if (title.length > MAX_TITLE_LENGTH) {
+    return `Title too long (max ${MAX_TITLE_LENGTH} characters)`
+  }
+  if (content.length > MAX_CONTENT_LENGTH) {
+    return `Content too long (max ${MAX_CONTENT_LENGTH} characters)`
   }
+  return null
 }
 
-/**
- * POST /api/content
- * Creates a new entry for the user
- */
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { title, content, token, attachments } = body
-
-    if (!token) {
-      return NextResponse.json({ success: false, error: "Authentication token required" }, { status: 401 })
-    }
-
-    const session = verifySessionToken(token)
-    if (!session) {
-      return NextResponse.json({ success: false, error: "Invalid or expired token" }, { status: 401 })
-    }
-
-    if (!title || !content) {
-      return NextResponse.json({ success: false, error: "Title and content are required" }, { status: 400 })
-    }
-
-    if (title.length > 100) {
-      return NextResponse.json({ success: false, error: "Title too long (max 100 characters)" }, { status: 400 })
-    }
-
-    if (content.length > 5000) {
-      return NextResponse.json({ success: false, error: "Content too long (max 5000 characters)" }, { status: 400 })
-    }
-
-    const entry = await createUserEntry(session.userId, title, content, attachments)
-
-    console.log(`✅ User ${session.username} (ID: ${session.userId}) created entry: ${entry.title}`)
-
-    return NextResponse.json({
-      success: true,
-      entry,
-      message: "Entry created successfully",
-    })
-  } catch (error) {
-    console.error("❌ POST /api/content error:", error)
-    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+// Tags are stored in plaintext, so vault notes can't have any without giving away what they're about
+function validateNoteTags(tags: unknown, encrypted: boolean): string[] | string | undefined {
+  if (tags === undefined) {
+    return undefined
+  }
+  const parsed = parseTagList(tags)
+  if (typeof parsed !== "string" && encrypted && parsed.length > 0) {
+    return "Encrypted notes can't have tags"
   }
+  return parsed
 }
 
 /**
- * PUT /api/content
- * Updates an existing entry for the user
+ * GET /api/content?tag=
+ * Returns user's entries. Attachments are listed as metadata only; their bytes
+ * come from /api/attachments/[id]?noteId=. Each `tag` given narrows the list to notes
+ * that have it; `tags` always counts tags across all of the user's notes.
+ * Accepts API tokens with the notes:read scope.
  */
-export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { id, title, content, token, attachments } = body
-
-    if (!token) {
-      return NextResponse.json({ success: false, error: "Authentication token required" }, { status: 401 })
-    }
-
-    const session = verifySessionToken(token)
-    if (!session) {
-      return NextResponse.json({ success: false, error: "Invalid or expired token" }, { status: 401 })
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const demo = session.role === "demo" ? { ...DEMO_LIMITS, ...(await ensureDemoSandbox(session.userId)) } : undefined
+      await purgeExpiredTrash(session.userId)
+      const allEntries = await getUserEntries(session.userId)
+      const filter = request.nextUrl.searchParams.getAll("tag").map(normalizeTag)
+      const entries = allEntries.filter((entry) => hasAllTags(entry, filter))
+      const storageInfo = await getStorageInfo()
+      const usage = await getStorageUsage(session.userId)
+
+      console.log(`📖 User ${session.username} (ID: ${session.userId}) fetched ${entries.length} entries`)
+
+      return NextResponse.json({
+        success: true,
+        entries,
+        count: entries.length,
+        tags: countTags(allEntries),
+        lastModified: new Date().toISOString(),
+        ...storageInfo,
+        usage,
+        quota: getRoleQuota(session.role),
+        demo,
+      })
+    } catch (error) {
+      console.error("❌ GET /api/content error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
     }
+  },
+  { scope: "notes:read" },
+)
 
-    if (!id || !title || !content) {
-      return NextResponse.json({ success: false, error: "ID, title, and content are required" }, { status: 400 })
-    }
-
-    if (title.length > 100) {
-      return NextResponse.json({ success: false, error: "Title too long (max 100 characters)" }, { status: 400 })
-    }
-
-    if (content.length > 5000) {
-      return NextResponse.json({ success: false, error: "Content too long (max 5000 characters)" }, { status: 400 })
+/**
+ * POST /api/content
+ * Creates a new entry for the user. `attachments` lists IDs returned by
+ * POST /api/attachments. With `encrypted: true` the title and content must be
+ * vault ciphertext. Responds 403 at the role's note limit and 413 when files
+ * exceed its storage quota. Accepts API tokens with the notes:write scope.
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const body = await request.json()
+      const { title, content, attachments, encrypted = false } = body
+
+      if (!title || !content) {
+        return NextResponse.json({ success: false, error: "Title and content are required" }, { status: 400 })
+      }
+
+      const textError = validateNoteText(title, content, encrypted === true)
+      if (textError) {
+        return NextResponse.json({ success: false, error: textError }, { status: 400 })
+      }
+
+      const tags = validateNoteTags(body.tags, encrypted === true)
+      if (typeof tags === "string") {
+        return NextResponse.json({ success: false, error: tags }, { status: 400 })
+      }
+
+      if (attachments !== undefined && !isAttachmentList(attachments)) {
+        return NextResponse.json(
+          { success: false, error: "Attachments must be a list of uploaded attachment IDs" },
+          { status: 400 },
+        )
+      }
+
+      if (session.role === "demo") {
+        await ensureDemoSandbox(session.userId)
+        const violation = checkDemoLimits(attachments)
+        if (violation) {
+          return NextResponse.json({ success: false, error: violation.error }, { status: violation.status })
+        }
+      }
+
+      if (encrypted === true && !(await findUserById(session.userId))?.vault) {
+        return NextResponse.json(
+          { success: false, error: "Set up a vault before saving encrypted notes" },
+          { status: 400 },
+        )
+      }
+
+      const result = await createUserEntry(session.userId, title, content, attachments, {
+        author: session.username,
+        quota: getRoleQuota(session.role),
+        encrypted: encrypted === true,
+        tags,
+      })
+
+      if (result.status === "quota_exceeded") {
+        console.log(`⚠️ User ${session.username} (ID: ${session.userId}) hit a quota: ${result.violation.error}`)
+        return NextResponse.json(
+          { success: false, error: result.violation.error },
+          { status: result.violation.status },
+        )
+      }
+
+      const { entry } = result
+
+      console.log(`✅ User ${session.username} (ID: ${session.userId}) created entry: ${entry.id}${entry.encrypted ? " (encrypted)" : ""}`)
+      await recordAuditEvent({
+        action: "note.create",
+        actor: session,
+        client: getClientInfo(request.headers),
+        noteId: entry.id,
+        after: entry,
+      })
+
+      return NextResponse.json({
+        success: true,
+        entry,
+        message: "Entry created successfully",
+      })
+    } catch (error) {
+      console.error("❌ POST /api/content error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
     }
+  },
+  { scope: "notes:write" },
+)
 
-    const entry = await updateUserEntry(session.userId, id, title, content, attachments)
-
-    if (!entry) {
-      return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
+/**
+ * PUT /api/content
+ * Updates an existing entry for the user. Accepts API tokens with the notes:write scope.
+ * `version` must be the version the edit started from; a stale version gets a
+ * 409 with the current copy instead of overwriting someone else's change.
+ * New attachments are checked against the role's quota (413). `encrypted`
+ * must match the note: notes can't be switched in or out of the vault.
+ * `tags` replaces the note's tags; leave it out to keep them.
+ */
+export const PUT = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const body = await request.json()
+      const { id, version, title, content, attachments, encrypted = false } = body
+
+      if (!id || !title || !content) {
+        return NextResponse.json({ success: false, error: "ID, title, and content are required" }, { status: 400 })
+      }
+
+      if (!Number.isInteger(version)) {
+        return NextResponse.json({ success: false, error: "Version is required" }, { status: 400 })
+      }
+
+      const textError = validateNoteText(title, content, encrypted === true)
+      if (textError) {
+        return NextResponse.json({ success: false, error: textError }, { status: 400 })
+      }
+
+      const tags = validateNoteTags(body.tags, encrypted === true)
+      if (typeof tags === "string") {
+        return NextResponse.json({ success: false, error: tags }, { status: 400 })
+      }
+
+      if (attachments !== undefined && !isAttachmentList(attachments)) {
+        return NextResponse.json(
+          { success: false, error: "Attachments must be a list of uploaded attachment IDs" },
+          { status: 400 },
+        )
+      }
+
+      if (session.role === "demo") {
+        await ensureDemoSandbox(session.userId)
+        const violation = checkDemoLimits(attachments)
+        if (violation) {
+          return NextResponse.json({ success: false, error: violation.error }, { status: violation.status })
+        }
+      }
+
+      const existing = await getUserEntry(session.userId, id)
+      if (!existing) {
+        return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
+      }
+
+      if (!!existing.encrypted !== (encrypted === true)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: existing.encrypted ? "This note is encrypted and must be saved encrypted" : "This note isn't encrypted",
+          },
+          { status: 400 },
+        )
+      }
+
+      const result = await updateUserEntry(session.userId, id, version, title, content, attachments, {
+        author: session.username,
+        quota: getRoleQuota(session.role),
+        tags,
+      })
+
+      if (result.status === "not_found") {
+        return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
+      }
+
+      if (result.status === "quota_exceeded") {
+        console.log(`⚠️ User ${session.username} (ID: ${session.userId}) hit a quota: ${result.violation.error}`)
+        return NextResponse.json(
+          { success: false, error: result.violation.error },
+          { status: result.violation.status },
+        )
+      }
+
+      if (result.status === "conflict") {
+        console.log(`⚠️ User ${session.username} (ID: ${session.userId}) hit a version conflict on entry: ${id}`)
+        return NextResponse.json(
+          {
+            success: false,
+            error: "This note was changed somewhere else since you started editing",
+            conflict: true,
+            entry: result.current,
+          },
+          { status: 409 },
+        )
+      }
+
+      const { entry } = result
+
+      console.log(`✅ User ${session.username} (ID: ${session.userId}) updated entry: ${entry.id}`)
+      await recordAuditEvent({
+        action: "note.update",
+        actor: session,
+        client: getClientInfo(request.headers),
+        noteId: entry.id,
+        before: existing,
+        after: entry,
+      })
+
+      return NextResponse.json({
+        success: true,
+        entry,
+        message: "Entry updated successfully",
+      })
+    } catch (error) {
+      console.error("❌ PUT /api/content error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
     }
-
-    console.log(`✅ User ${session.username} (ID: ${session.userId}) updated entry: ${entry.title}`)
-
-    return NextResponse.json({
-      success: true,
-      entry,
-      message: "Entry updated successfully",
-    })
-  } catch (error) {
-    console.error("❌ PUT /api/content error:", error)
-    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
-  }
-}
+  },
+  { scope: "notes:write" },
+)
 
 /**
  * DELETE /api/content
- * Deletes an entry for the user
+ * Moves an entry to the trash, from where /api/trash can restore or purge it.
+ * Accepts API tokens with the notes:write scope.
  */
-export async function DELETE(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { id, token } = body
-
-    if (!token) {
-      return NextResponse.json({ success: false, error: "Authentication token required" }, { status: 401 })
-    }
-
-    const session = verifySessionToken(token)
-    if (!session) {
-      return NextResponse.json({ success: false, error: "Invalid or expired token" }, { status: 401 })
+export const DELETE = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const body = await request.json()
+      const { id } = body
+
+      if (!id) {
+        return NextResponse.json({ success: false, error: "Entry ID is required" }, { status: 400 })
+      }
+
+      const trashed = await trashUserEntry(session.userId, id)
+
+      if (!trashed) {
+        return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
+      }
+
+      console.log(`🗑️ User ${session.username} (ID: ${session.userId}) moved entry to trash: ${id}`)
+      await recordAuditEvent({
+        action: "note.trash",
+        actor: session,
+        client: getClientInfo(request.headers),
+        noteId: id,
+        before: trashed,
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: "Entry moved to trash",
+      })
+    } catch (error) {
+      console.error("❌ DELETE /api/content error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
     }
-
-    if (!id) {
-      return NextResponse.json({ success: false, error: "Entry ID is required" }, { status: 400 })
-    }
-
-    const deleted = await deleteUserEntry(session.userId, id)
-
-    if (!deleted) {
-      return NextResponse.json({ success: false, error: "Entry not found or access denied" }, { status: 404 })
-    }
-
-    console.log(`✅ User ${session.username} (ID: ${session.userId}) deleted entry: ${id}`)
-
-    return NextResponse.json({
-      success: true,
-      message: "Entry deleted successfully",
-    })
-  } catch (error) {
-    console.error("❌ DELETE /api/content error:", error)
-    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
-  }
-}
+  },
+  { scope: "notes:write" },
+)
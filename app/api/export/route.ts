@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { hasScope } from "@/lib/api-tokens"
+import { buildExportBundle, toZipExport } from "@/lib/note-transfer"
+
+/**
+ * GET /api/export?format=json|zip
+ * Downloads all of the user's notes, either as a versioned JSON bundle or as
+ * a ZIP of Markdown files with an attachments/ folder. Accepts API tokens with
+ * the notes:read scope; attachment files are only included with attachments:read.
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const format = request.nextUrl.searchParams.get("format") || "json"
+      if (format !== "json" && format !== "zip") {
+        return NextResponse.json({ success: false, error: 'Format must be "json" or "zip"' }, { status: 400 })
+      }
+
+      const bundle = await buildExportBundle(session.userId, session.username, hasScope(session, "attachments:read"))
+      const filename = `notes-${session.username}-${bundle.exportedAt.slice(0, 10)}.${format}`
+
+      console.log(`📤 User ${session.username} (ID: ${session.userId}) exported ${bundle.notes.length} notes as ${format}`)
+
+      const body = format === "zip" ? toZipExport(bundle) : JSON.stringify(bundle, null, 2)
+      return new Response(body, {
+        headers: {
+          "Content-Type": format === "zip" ? "application/zip" : "application/json",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      })
+    } catch (error) {
+      console.error("❌ GET /api/export error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:read" },
+)
@@ -0,0 +1,90 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { readUploadedFile } from "@/lib/uploads"
+import { importNotes, parseImportFile } from "@/lib/note-transfer"
+import { getRoleQuota } from "@/lib/users"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { getClientInfo } from "@/lib/sessions"
+
+const MAX_IMPORT_SIZE = 50 * 1024 * 1024 // 50MB
+
+/**
+ * POST /api/import?dryRun=true
+ * Imports a JSON or ZIP file from /api/export, sent as the "file" field of a
+ * multipart upload. Notes that duplicate existing ones (by ID or identical
+ * content) are skipped. With dryRun nothing is saved and the report previews
+ * the result. Accepts API tokens with the notes:write scope.
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      if (session.role === "demo") {
+        return NextResponse.json(
+          { success: false, error: "Importing is not available for demo accounts" },
+          { status: 403 },
+        )
+      }
+
+      const contentType = request.headers.get("content-type") || ""
+      if (!contentType.startsWith("multipart/form-data") || !request.body) {
+        return NextResponse.json({ success: false, error: "Expected a multipart/form-data upload" }, { status: 400 })
+      }
+
+      const dryRun = request.nextUrl.searchParams.get("dryRun") === "true"
+
+      let upload
+      try {
+        upload = await readUploadedFile(request.body, { "content-type": contentType }, MAX_IMPORT_SIZE)
+      } catch (error) {
+        console.error("❌ Failed to parse import upload:", error)
+        return NextResponse.json({ success: false, error: "Malformed multipart upload" }, { status: 400 })
+      }
+
+      if (upload.status === "too_large") {
+        return NextResponse.json(
+          { success: false, error: `Import file is too large (max ${MAX_IMPORT_SIZE / (1024 * 1024)}MB)` },
+          { status: 413 },
+        )
+      }
+
+      if (upload.status === "missing") {
+        return NextResponse.json({ success: false, error: "No file was uploaded" }, { status: 400 })
+      }
+
+      let notes
+      try {
+        notes = parseImportFile(upload.data)
+      } catch (error) {
+        return NextResponse.json(
+          { success: false, error: error instanceof Error ? error.message : "Unreadable import file" },
+          { status: 400 },
+        )
+      }
+
+      const report = await importNotes(session.userId, session.username, getRoleQuota(session.role), notes, dryRun)
+
+      console.log(
+        `📥 User ${session.username} (ID: ${session.userId}) ${dryRun ? "previewed" : "ran"} an import: ${report.counts.imported} imported, ${report.counts.duplicate} duplicates, ${report.counts.invalid} invalid`,
+      )
+      for (const item of report.notes) {
+        if (item.id) {
+          await recordAuditEvent({
+            action: "note.import",
+            actor: session,
+            client: getClientInfo(request.headers),
+            noteId: item.id,
+          })
+        }
+      }
+
+      return NextResponse.json({
+        success: true,
+        report,
+      })
+    } catch (error) {
+      console.error("❌ POST /api/import error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:write" },
+)
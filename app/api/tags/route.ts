@@ -0,0 +1,104 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { getUserEntries, getTrashedEntries, replaceUserTags } from "@/lib/storage"
+import { countTags, isValidTag, normalizeTag } from "@/lib/tags"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { getClientInfo } from "@/lib/sessions"
+
+/**
+ * GET /api/tags
+ * Lists the user's tags with how many notes have each, most used first.
+ * Accepts API tokens with the notes:read scope.
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const tags = countTags(await getUserEntries(session.userId))
+
+      return NextResponse.json({ success: true, tags })
+    } catch (error) {
+      console.error("❌ GET /api/tags error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:read" },
+)
+
+/**
+ * POST /api/tags
+ * Changes a tag on every note, trashed ones included.
+ * `{ action: "rename", from: "old", to: "new" }` renames one tag and responds
+ * 409 if `to` is already in use; `{ action: "merge", from: ["a", "b"], to: "c" }`
+ * folds several tags into one, which may already exist. Accepts API tokens
+ * with the notes:write scope.
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const { action, from, to } = await request.json()
+
+      if (action !== "rename" && action !== "merge") {
+        return NextResponse.json({ success: false, error: "Action must be rename or merge" }, { status: 400 })
+      }
+
+      const sources = action === "rename" ? [from] : from
+      if (!Array.isArray(sources) || sources.length === 0 || !sources.every((tag) => typeof tag === "string")) {
+        return NextResponse.json(
+          { success: false, error: action === "rename" ? "Tag to rename is required" : "Tags to merge are required" },
+          { status: 400 },
+        )
+      }
+
+      if (typeof to !== "string" || !isValidTag(normalizeTag(to))) {
+        return NextResponse.json({ success: false, error: "Invalid new tag name" }, { status: 400 })
+      }
+
+      const target = normalizeTag(to)
+      const tags = [...new Set(sources.map(normalizeTag))].filter((tag) => tag !== target)
+      if (tags.length === 0) {
+        return NextResponse.json({ success: false, error: "Nothing to change" }, { status: 400 })
+      }
+
+      if (action === "rename") {
+        // The rename reaches the trash too, so a trashed note's tag counts as taken
+        const existing = countTags([
+          ...(await getUserEntries(session.userId)),
+          ...(await getTrashedEntries(session.userId)),
+        ])
+        if (existing.some((tag) => tag.name === target)) {
+          return NextResponse.json(
+            { success: false, error: `Tag "${target}" already exists - merge into it instead` },
+            { status: 409 },
+          )
+        }
+      }
+
+      const changed = await replaceUserTags(session.userId, tags, target, session.username)
+
+      console.log(
+        `🏷️ User ${session.username} (ID: ${session.userId}) ${action === "rename" ? "renamed" : "merged"} ${tags.join(", ")} into ${target} on ${changed.length} notes`,
+      )
+      for (const { before, after } of changed) {
+        await recordAuditEvent({
+          action: action === "rename" ? "tag.rename" : "tag.merge",
+          actor: session,
+          client: getClientInfo(request.headers),
+          noteId: after.id,
+          before,
+          after,
+          details: `${tags.join(", ")} → ${target}`,
+        })
+      }
+
+      return NextResponse.json({
+        success: true,
+        updated: changed.length,
+        tags: countTags(await getUserEntries(session.userId)),
+      })
+    } catch (error) {
+      console.error("❌ POST /api/tags error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:write" },
+)
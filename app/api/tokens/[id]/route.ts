@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { revokeApiToken } from "@/lib/api-tokens"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * DELETE /api/tokens/[id]
+ * Revokes one of the user's personal API tokens
+ */
+export const DELETE = withSession<RouteContext>(async (request: NextRequest, session, { params }) => {
+  try {
+    const { id } = await params
+
+    const revoked = await revokeApiToken(session.userId, id)
+    if (!revoked) {
+      return NextResponse.json({ success: false, error: "Token not found" }, { status: 404 })
+    }
+
+    console.log(`🔑 User ${session.username} (ID: ${session.userId}) revoked API token ${id}`)
+    await recordAuditEvent({
+      action: "token.revoke",
+      actor: session,
+      client: getClientInfo(request.headers),
+      details: `Token ${id}`,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: "Token revoked",
+    })
+  } catch (error) {
+    console.error("❌ DELETE /api/tokens/[id] error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -0,0 +1,113 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { API_TOKEN_SCOPES, createApiToken, listApiTokens, type ApiTokenRecord } from "@/lib/api-tokens"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+const MAX_EXPIRY_DAYS = 365
+
+// Never send the hash back to the client
+function toTokenSummary(record: ApiTokenRecord) {
+  return {
+    id: record.id,
+    name: record.name,
+    scopes: record.scopes,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+    lastUsedAt: record.lastUsedAt,
+  }
+}
+
+/**
+ * GET /api/tokens
+ * Lists the user's personal API tokens
+ */
+export const GET = withSession(async (request: NextRequest, session) => {
+  try {
+    const tokens = await listApiTokens(session.userId)
+
+    return NextResponse.json({
+      success: true,
+      tokens: tokens.map(toTokenSummary),
+    })
+  } catch (error) {
+    console.error("❌ GET /api/tokens error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/tokens
+ * Creates a personal API token; the token itself is only returned this once
+ */
+export const POST = withSession(async (request: NextRequest, session) => {
+  try {
+    if (session.role === "demo") {
+      return NextResponse.json(
+        { success: false, error: "API tokens are not available for demo accounts" },
+        { status: 403 },
+      )
+    }
+
+    const body = await request.json()
+    const { name, scopes, expiresInDays } = body
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ success: false, error: "Token name is required" }, { status: 400 })
+    }
+
+    if (name.length > 50) {
+      return NextResponse.json({ success: false, error: "Token name too long (max 50 characters)" }, { status: 400 })
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope) => API_TOKEN_SCOPES.includes(scope))
+    ) {
+      return NextResponse.json(
+        { success: false, error: `Scopes must be one or more of: ${API_TOKEN_SCOPES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    if (
+      expiresInDays !== undefined &&
+      expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { success: false, error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` },
+        { status: 400 },
+      )
+    }
+
+    const expiresAt = expiresInDays ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000 : undefined
+    const created = await createApiToken(session.userId, name, Array.from(new Set(scopes)), expiresAt)
+
+    if (!created) {
+      return NextResponse.json(
+        { success: false, error: "Token limit reached; revoke an unused token first" },
+        { status: 409 },
+      )
+    }
+
+    console.log(`🔑 User ${session.username} (ID: ${session.userId}) created API token ${created.record.id}`)
+    await recordAuditEvent({
+      action: "token.create",
+      actor: session,
+      client: getClientInfo(request.headers),
+      details: `Token ${created.record.id} (${created.record.scopes.join(", ")})`,
+    })
+
+    return NextResponse.json({
+      success: true,
+      token: created.token,
+      apiToken: toTokenSummary(created.record),
+      message: "Token created. Copy it now - it won't be shown again.",
+    })
+  } catch (error) {
+    console.error("❌ POST /api/tokens error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { purgeUserEntry, restoreUserEntry } from "@/lib/storage"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { getClientInfo } from "@/lib/sessions"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/trash/[id]
+ * Restores a trashed entry. Accepts API tokens with the notes:write scope.
+ */
+export const POST = withSession<RouteContext>(
+  async (request: NextRequest, session, { params }) => {
+    try {
+      const { id } = await params
+
+      const entry = await restoreUserEntry(session.userId, id)
+      if (!entry) {
+        return NextResponse.json({ success: false, error: "Entry not found in trash" }, { status: 404 })
+      }
+
+      console.log(`♻️ User ${session.username} (ID: ${session.userId}) restored entry: ${entry.id}`)
+      await recordAuditEvent({
+        action: "note.restore",
+        actor: session,
+        client: getClientInfo(request.headers),
+        noteId: entry.id,
+        after: entry,
+      })
+
+      return NextResponse.json({
+        success: true,
+        entry,
+        message: "Entry restored",
+      })
+    } catch (error) {
+      console.error("❌ POST /api/trash/[id] error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:write" },
+)
+
+/**
+ * DELETE /api/trash/[id]
+ * Permanently deletes a trashed entry and its attachments. Accepts API tokens
+ * with the notes:write scope.
+ */
+export const DELETE = withSession<RouteContext>(
+  async (request: NextRequest, session, { params }) => {
+    try {
+      const { id } = await params
+
+      const purged = await purgeUserEntry(session.userId, id)
+      if (!purged) {
+        return NextResponse.json({ success: false, error: "Entry not found in trash" }, { status: 404 })
+      }
+
+      console.log(`🗑️ User ${session.username} (ID: ${session.userId}) permanently deleted entry: ${id}`)
+      await recordAuditEvent({
+        action: "note.purge",
+        actor: session,
+        client: getClientInfo(request.headers),
+        noteId: id,
+        before: purged,
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: "Entry deleted forever",
+      })
+    } catch (error) {
+      console.error("❌ DELETE /api/trash/[id] error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:write" },
+)
@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSession } from "@/lib/with-session"
+import { emptyTrash, getTrashedEntries, TRASH_RETENTION_DAYS } from "@/lib/storage"
+import { recordAuditEvent } from "@/lib/audit-log"
+import { getClientInfo } from "@/lib/sessions"
+
+/**
+ * GET /api/trash
+ * Lists the user's trashed entries. Anything older than the retention period
+ * is purged first. Accepts API tokens with the notes:read scope.
+ */
+export const GET = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const entries = await getTrashedEntries(session.userId)
+
+      return NextResponse.json({
+        success: true,
+        entries,
+        count: entries.length,
+        retentionDays: TRASH_RETENTION_DAYS,
+      })
+    } catch (error) {
+      console.error("❌ GET /api/trash error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:read" },
+)
+
+/**
+ * DELETE /api/trash
+ * Permanently deletes everything in the user's trash. Accepts API tokens with
+ * the notes:write scope.
+ */
+export const DELETE = withSession(
+  async (request: NextRequest, session) => {
+    try {
+      const purged = await emptyTrash(session.userId)
+
+      console.log(`🗑️ User ${session.username} (ID: ${session.userId}) emptied the trash (${purged.length} notes)`)
+      for (const entry of purged) {
+        await recordAuditEvent({
+          action: "note.purge",
+          actor: session,
+          client: getClientInfo(request.headers),
+          noteId: entry.id,
+          before: entry,
+          details: "Emptied the trash",
+        })
+      }
+
+      return NextResponse.json({
+        success: true,
+        purged: purged.length,
+        message: "Trash emptied",
+      })
+    } catch (error) {
+      console.error("❌ DELETE /api/trash error:", error)
+      return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+    }
+  },
+  { scope: "notes:write" },
+)
@@ -0,0 +1,106 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { findUserById } from "@/lib/auth"
+import { countEncryptedNotes, enableVault, getVaultParams, resetVault } from "@/lib/vault"
+import { isVaultParams } from "@/lib/vault-crypto"
+import { withSession } from "@/lib/with-session"
+import { getClientInfo } from "@/lib/sessions"
+import { recordAuditEvent } from "@/lib/audit-log"
+
+/**
+ * GET /api/vault
+ * Returns the salt, iteration count and verifier the browser needs to derive
+ * the vault key, or null if the user hasn't set up a vault
+ */
+export const GET = withSession(async (request: NextRequest, session) => {
+  try {
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      vault: getVaultParams(user),
+      createdAt: user.vault?.createdAt,
+    })
+  } catch (error) {
+    console.error("❌ GET /api/vault error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/vault
+ * Sets up the vault with parameters generated in the browser. The passphrase
+ * and key never reach the server.
+ */
+export const POST = withSession(async (request: NextRequest, session) => {
+  try {
+    // The demo account is shared, so nobody may lock notes in it behind their own passphrase
+    if (session.role === "demo") {
+      return NextResponse.json(
+        { success: false, error: "Encrypted notes are not available for demo accounts" },
+        { status: 403 },
+      )
+    }
+
+    const params = await request.json()
+    if (!isVaultParams(params)) {
+      return NextResponse.json({ success: false, error: "Invalid vault parameters" }, { status: 400 })
+    }
+
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    if (user.vault) {
+      return NextResponse.json({ success: false, error: "A vault is already set up" }, { status: 409 })
+    }
+
+    await enableVault(user, { salt: params.salt, iterations: params.iterations, verifier: params.verifier })
+
+    console.log(`🔐 User ${session.username} (ID: ${session.userId}) set up an encrypted vault`)
+    await recordAuditEvent({ action: "vault.enable", actor: session, client: getClientInfo(request.headers) })
+
+    return NextResponse.json({ success: true, message: "Vault set up" })
+  } catch (error) {
+    console.error("❌ POST /api/vault error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+/**
+ * DELETE /api/vault
+ * Removes the vault so it can be set up again with a new passphrase. Refused
+ * while encrypted notes remain, since they could never be read again.
+ */
+export const DELETE = withSession(async (request: NextRequest, session) => {
+  try {
+    const user = await findUserById(session.userId)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "User not found" }, { status: 404 })
+    }
+
+    const encryptedNotes = await countEncryptedNotes(session.userId)
+    if (encryptedNotes > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Delete your ${encryptedNotes} encrypted notes and empty the trash before resetting the vault`,
+        },
+        { status: 409 },
+      )
+    }
+
+    await resetVault(user)
+
+    console.log(`🔐 User ${session.username} (ID: ${session.userId}) reset their encrypted vault`)
+    await recordAuditEvent({ action: "vault.reset", actor: session, client: getClientInfo(request.headers) })
+
+    return NextResponse.json({ success: true, message: "Vault reset" })
+  } catch (error) {
+    console.error("❌ DELETE /api/vault error:", error)
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
+import { ToastAction } from "@/components/ui/toast"
 import {
   Trash2,
   Edit,
@@ -24,27 +25,42 @@ import {
   Paperclip,
   Download,
   File,
+  ShieldCheck,
+  Settings,
+  ArchiveRestore,
+  History,
+  Tag,
 } from "lucide-react"
+import Link from "next/link"
 import LoginForm from "@/components/login-form"
 import Chatbot from "@/components/chatbot"
-
-interface FileAttachment {
-  id: string
-  filename: string
-  mimeType: string
-  size: number
-  data: string
-  uploadedAt: string
-}
-
-interface TextEntry {
-  id: string
-  title: string
-  content: string
-  createdAt: string
-  updatedAt: string
-  userId: string
-  attachments?: FileAttachment[]
+import NoteConflictDialog from "@/components/note-conflict-dialog"
+import NoteHistoryDialog from "@/components/note-history-dialog"
+import UsageMeter from "@/components/usage-meter"
+import VaultUnlock from "@/components/vault-unlock"
+import TagInput from "@/components/tag-input"
+import TagSidebar from "@/components/tag-sidebar"
+import { mergeNoteEdits } from "@/lib/note-merge"
+import { hasAllTags, type TagCount } from "@/lib/tags"
+import type { FileAttachment, RoleQuota, StorageUsage, TextEntry } from "@/lib/types"
+import {
+  decryptBytes,
+  decryptNote,
+  encryptAttachmentMetadata,
+  encryptBytes,
+  encryptText,
+  unlockVault,
+  type VaultParams,
+} from "@/lib/vault-crypto"
+
+// Encrypted notes are shown locked until the vault is unlocked in this tab
+type NoteView = TextEntry & { locked?: boolean }
+
+interface DemoSandbox {
+  maxNotes: number
+  maxAttachmentSize: number
+  maxAttachmentsPerNote: number
+  resetsAt: string
 }
 
 interface ApiResponse {
@@ -60,6 +76,11 @@ interface ApiResponse {
   error?: string
   storage?: string
   isGlobal?: boolean
+  demo?: DemoSandbox
+  usage?: StorageUsage
+  quota?: RoleQuota
+  conflict?: boolean
+  tags?: TagCount[]
 }
 
 interface FormState {
@@ -69,6 +90,7 @@ interface FormState {
   contentError: string
   isSubmitting: boolean
   attachments: FileAttachment[]
+  tags: string[]
   fileError: string
 }
 
@@ -81,18 +103,22 @@ interface AuthUser {
 
 export default function Component() {
   const { toast } = useToast()
-  const [authToken, setAuthToken] = useState<string | null>(null)
   const [currentUser, setCurrentUser] = useState<AuthUser | null>(null)
   const [isAuthLoading, setIsAuthLoading] = useState(true)
 
   const [data, setData] = useState<{
-    entries: TextEntry[]
+    entries: NoteView[]
+    tags: TagCount[]
     lastModified: string
     count: number
     isGlobal: boolean
     storage: string
+    demo?: DemoSandbox
+    usage?: StorageUsage
+    quota?: RoleQuota
   }>({
     entries: [],
+    tags: [],
     lastModified: "",
     count: 0,
     isGlobal: false,
@@ -101,6 +127,14 @@ export default function Component() {
 
   const [isLoading, setIsLoading] = useState(true)
   const [editingId, setEditingId] = useState<string | null>(null)
+  // The note as it was when editing started, and the newer saved copy if a save conflicted
+  const [editBase, setEditBase] = useState<TextEntry | null>(null)
+  const [conflict, setConflict] = useState<TextEntry | null>(null)
+  const [historyEntry, setHistoryEntry] = useState<TextEntry | null>(null)
+  const [vault, setVault] = useState<VaultParams | null>(null)
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null)
+  const [encryptNew, setEncryptNew] = useState(true)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
 
   const [newEntry, setNewEntry] = useState<FormState>({
     title: "",
@@ -109,6 +143,7 @@ export default function Component() {
     contentError: "",
     isSubmitting: false,
     attachments: [],
+    tags: [],
     fileError: "",
   })
 
@@ -119,6 +154,7 @@ export default function Component() {
     contentError: "",
     isSubmitting: false,
     attachments: [],
+    tags: [],
     fileError: "",
   })
 
@@ -136,40 +172,25 @@ export default function Component() {
 
   // Check authentication on mount
   useEffect(() => {
-    const token = localStorage.getItem("authToken")
-    if (token) {
-      verifyToken(token)
-    } else {
-      setIsAuthLoading(false)
-    }
+    verifySession()
   }, [])
 
-  // Verify token with server
-  const verifyToken = async (token: string) => {
+  // Verify the session cookie with the server
+  const verifySession = async () => {
     try {
       const response = await fetch("/api/auth/verify", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ token }),
       })
 
       const result = await response.json()
 
       if (result.success && result.user) {
-        setAuthToken(token)
         setCurrentUser(result.user)
-        localStorage.setItem("authToken", token)
       } else {
-        localStorage.removeItem("authToken")
-        setAuthToken(null)
         setCurrentUser(null)
       }
     } catch (error) {
-      console.error("Token verification failed:", error)
-      localStorage.removeItem("authToken")
-      setAuthToken(null)
+      console.error("Session verification failed:", error)
       setCurrentUser(null)
     } finally {
       setIsAuthLoading(false)
@@ -177,18 +198,27 @@ export default function Component() {
   }
 
   // Handle login
-  const handleLogin = (token: string) => {
-    localStorage.setItem("authToken", token)
-    verifyToken(token)
+  const handleLogin = () => {
+    verifySession()
   }
 
   // Handle logout
-  const handleLogout = () => {
-    localStorage.removeItem("authToken")
-    setAuthToken(null)
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/auth/logout", {
+        method: "POST",
+      })
+    } catch (error) {
+      console.error("Server logout failed:", error)
+    }
+
     setCurrentUser(null)
+    setVault(null)
+    setVaultKey(null)
+    setSelectedTags([])
     setData({
       entries: [],
+      tags: [],
       lastModified: "",
       count: 0,
       isGlobal: false,
@@ -215,12 +245,61 @@ export default function Component() {
     return errors
   }
 
+  // Decrypt vault notes for display; without the key (or with the wrong one) they stay locked
+  const readEntry = useCallback(
+    async (entry: TextEntry): Promise<NoteView> => {
+      if (entry.encrypted || entry.attachments?.some((attachment) => attachment.encrypted)) {
+        try {
+          if (vaultKey) {
+            return await decryptNote(vaultKey, entry)
+          }
+        } catch (error) {
+          console.error(`Could not decrypt note ${entry.id}:`, error)
+        }
+        return {
+          ...entry,
+          ...(entry.encrypted && { title: "Encrypted note", content: "Unlock your vault to read this note." }),
+          attachments: entry.attachments?.map((attachment) =>
+            attachment.encrypted ? { ...attachment, filename: "Encrypted file" } : attachment,
+          ),
+          locked: true,
+        }
+      }
+      return entry
+    },
+    [vaultKey],
+  )
+
+  const fetchVault = useCallback(async () => {
+    try {
+      const response = await fetch("/api/vault", {
+        headers: { "Cache-Control": "no-cache" },
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setVault(result.vault)
+      }
+    } catch (error) {
+      console.error("Error fetching vault:", error)
+    }
+  }, [])
+
+  const handleUnlockVault = async (passphrase: string) => {
+    if (!vault) return false
+    const key = await unlockVault(passphrase, vault)
+    if (key) {
+      setVaultKey(key)
+    }
+    return !!key
+  }
+
   // Fetch entries
   const fetchEntries = useCallback(async () => {
-    if (!authToken) return
+    if (!currentUser) return
 
     try {
-      const response = await fetch(`/api/content?token=${encodeURIComponent(authToken)}`, {
+      const response = await fetch("/api/content", {
         method: "GET",
         headers: {
           "Cache-Control": "no-cache",
@@ -235,11 +314,15 @@ export default function Component() {
 
       if (result.success && result.entries) {
         setData({
-          entries: result.entries,
+          entries: await Promise.all(result.entries.map(readEntry)),
+          tags: result.tags || [],
           lastModified: result.lastModified || new Date().toISOString(),
           count: result.count || result.entries.length,
           isGlobal: result.isGlobal || false,
           storage: result.storage || "unknown",
+          demo: result.demo,
+          usage: result.usage,
+          quota: result.quota,
         })
       } else {
         throw new Error(result.error || "Failed to load")
@@ -250,12 +333,19 @@ export default function Component() {
     } finally {
       setIsLoading(false)
     }
-  }, [authToken, showNotification])
+  }, [currentUser, readEntry, showNotification])
 
   const handleFileSelect = async (files: FileList | null, isEdit = false) => {
     if (!files || files.length === 0) return
 
     const setterFn = isEdit ? setEditEntry : setNewEntry
+    // Files on an encrypted note are encrypted too, name and all
+    const encrypt = isEdit ? !!editBase?.encrypted : !!vaultKey && encryptNew
+
+    if (encrypt && !vaultKey) {
+      setterFn((prev) => ({ ...prev, fileError: "Unlock your vault to add files to this note" }))
+      return
+    }
 
     // Limit to 5 files
     if (files.length > 5) {
@@ -263,30 +353,43 @@ export default function Component() {
       return
     }
 
-    const maxSize = 5 * 1024 * 1024 // 5MB per file
+    const maxSize = data.quota?.maxFileSize ?? 5 * 1024 * 1024 // 5MB per file
     const newAttachments: FileAttachment[] = []
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i]
 
       if (file.size > maxSize) {
-        setterFn((prev) => ({ ...prev, fileError: `File ${file.name} is too large (max 5MB)` }))
+        setterFn((prev) => ({ ...prev, fileError: `File ${file.name} is too large (max ${formatFileSize(maxSize)})` }))
         return
       }
 
       try {
-        const base64 = await fileToBase64(file)
-        const attachment: FileAttachment = {
-          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-          filename: file.name,
-          mimeType: file.type || "application/octet-stream",
-          size: file.size,
-          data: base64,
-          uploadedAt: new Date().toISOString(),
+        const formData = new FormData()
+        if (encrypt && vaultKey) {
+          const metadata = { name: file.name, type: file.type || "application/octet-stream" }
+          const bytes = await encryptBytes(vaultKey, new Uint8Array(await file.arrayBuffer()))
+          formData.append("file", new Blob([bytes]), await encryptAttachmentMetadata(vaultKey, metadata))
+        } else {
+          formData.append("file", file)
+        }
+
+        // The server checks the size and real file type, and keeps the upload until the note is saved
+        const response = await fetch(encrypt ? "/api/attachments?encrypted=true" : "/api/attachments", {
+          method: "POST",
+          body: formData,
+        })
+        const result: { success: boolean; attachment?: FileAttachment; error?: string } = await response.json()
+
+        if (!result.success || !result.attachment) {
+          setterFn((prev) => ({ ...prev, fileError: `${file.name}: ${result.error || "Upload failed"}` }))
+          return
         }
-        newAttachments.push(attachment)
+        newAttachments.push(
+          encrypt ? { ...result.attachment, filename: file.name, mimeType: file.type } : result.attachment,
+        )
       } catch (error) {
-        setterFn((prev) => ({ ...prev, fileError: `Failed to process ${file.name}` }))
+        setterFn((prev) => ({ ...prev, fileError: `Failed to upload ${file.name}` }))
         return
       }
     }
@@ -298,20 +401,6 @@ export default function Component() {
     }))
   }
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.readAsDataURL(file)
-      reader.onload = () => {
-        const result = reader.result as string
-        // Remove data URL prefix
-        const base64 = result.split(",")[1]
-        resolve(base64)
-      }
-      reader.onerror = (error) => reject(error)
-    })
-  }
-
   const removeAttachment = (attachmentId: string, isEdit = false) => {
     const setterFn = isEdit ? setEditEntry : setNewEntry
     setterFn((prev) => ({
@@ -320,14 +409,36 @@ export default function Component() {
     }))
   }
 
-  const downloadAttachment = (attachment: FileAttachment) => {
-    const dataUrl = `data:${attachment.mimeType};base64,${attachment.data}`
+  const downloadAttachment = async (attachment: FileAttachment, noteId: string) => {
     const link = document.createElement("a")
-    link.href = dataUrl
+    link.href = `/api/attachments/${encodeURIComponent(attachment.id)}?noteId=${encodeURIComponent(noteId)}`
     link.download = attachment.filename
+
+    // Encrypted files are decrypted here and handed to the browser as a local download
+    if (attachment.encrypted) {
+      if (!vaultKey) {
+        showNotification("error", "Unlock your vault to download this file")
+        return
+      }
+      try {
+        const response = await fetch(link.href)
+        if (!response.ok) {
+          throw new Error(`Error: ${response.status}`)
+        }
+        const bytes = await decryptBytes(vaultKey, new Uint8Array(await response.arrayBuffer()))
+        link.href = URL.createObjectURL(new Blob([bytes], { type: attachment.mimeType }))
+      } catch (error) {
+        showNotification("error", "Failed to decrypt file")
+        return
+      }
+    }
+
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
+    if (attachment.encrypted) {
+      URL.revokeObjectURL(link.href)
+    }
   }
 
   const formatFileSize = (bytes: number): string => {
@@ -338,7 +449,7 @@ export default function Component() {
 
   // Create entry
   const createEntry = async () => {
-    if (!authToken) return
+    if (!currentUser) return
 
     const errors = validateForm(newEntry.title, newEntry.content)
 
@@ -350,17 +461,25 @@ export default function Component() {
     setNewEntry((prev) => ({ ...prev, isSubmitting: true, titleError: "", contentError: "" }))
 
     try {
+      const title = newEntry.title.trim()
+      const content = newEntry.content.trim()
+      const key = encryptNew ? vaultKey : null
+
       const response = await fetch("/api/content", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          title: newEntry.title.trim(),
-          content: newEntry.content.trim(),
-          token: authToken,
-          attachments: newEntry.attachments,
-        }),
+        body: JSON.stringify(
+          key
+            ? {
+                title: await encryptText(key, title),
+                content: await encryptText(key, content),
+                attachments: newEntry.attachments,
+                encrypted: true,
+              }
+            : { title, content, attachments: newEntry.attachments, tags: newEntry.tags },
+        ),
       })
 
       const result: ApiResponse = await response.json()
@@ -373,6 +492,7 @@ export default function Component() {
           contentError: "",
           isSubmitting: false,
           attachments: [],
+          tags: [],
           fileError: "",
         })
 
@@ -389,9 +509,9 @@ export default function Component() {
     }
   }
 
-  // Update entry
-  const updateEntry = async (id: string) => {
-    if (!authToken) return
+  // Update entry; `version` is the version this edit is based on
+  const updateEntry = async (id: string, version = editBase?.version) => {
+    if (!currentUser) return
 
     const errors = validateForm(editEntry.title, editEntry.content)
 
@@ -400,27 +520,47 @@ export default function Component() {
       return
     }
 
+    if (editBase?.encrypted && !vaultKey) {
+      showNotification("error", "Unlock your vault to save this note")
+      return
+    }
+
     setEditEntry((prev) => ({ ...prev, isSubmitting: true, titleError: "", contentError: "" }))
 
     try {
+      const title = editEntry.title.trim()
+      const content = editEntry.content.trim()
+      const key = editBase?.encrypted ? vaultKey : null
+
       const response = await fetch("/api/content", {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          id,
-          title: editEntry.title.trim(),
-          content: editEntry.content.trim(),
-          token: authToken,
-          attachments: editEntry.attachments,
-        }),
+        body: JSON.stringify(
+          key
+            ? {
+                id,
+                version,
+                title: await encryptText(key, title),
+                content: await encryptText(key, content),
+                attachments: editEntry.attachments,
+                encrypted: true,
+              }
+            : { id, version, title, content, attachments: editEntry.attachments, tags: editEntry.tags },
+        ),
       })
 
       const result: ApiResponse = await response.json()
 
+      if (result.conflict && result.entry) {
+        setConflict(await readEntry(result.entry))
+        return
+      }
+
       if (result.success && result.entry) {
         setEditingId(null)
+        setEditBase(null)
         setEditEntry({
           title: "",
           content: "",
@@ -428,6 +568,7 @@ export default function Component() {
           contentError: "",
           isSubmitting: false,
           attachments: [],
+          tags: [],
           fileError: "",
         })
 
@@ -443,29 +584,55 @@ export default function Component() {
     }
   }
 
-  // Delete entry
+  // Bring a note straight back from the trash
+  const undoDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/trash/${encodeURIComponent(id)}`, {
+        method: "POST",
+      })
+
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        await fetchEntries()
+        showNotification("success", "Note restored")
+      } else {
+        throw new Error(result.error || "Failed to restore")
+      }
+    } catch (error) {
+      showNotification("error", "Failed to restore note")
+    }
+  }
+
+  // Deleting only moves the note to the trash, so no confirmation is needed - the toast offers an undo
   const deleteEntry = async (id: string) => {
-    if (!authToken) return
+    if (!currentUser) return
 
     const entry = data.entries.find((e) => e.id === id)
     if (!entry) return
 
-    if (!confirm(`Are you sure you want to delete "${entry.title}"?`)) return
-
     try {
       const response = await fetch("/api/content", {
         method: "DELETE",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ id, token: authToken }),
+        body: JSON.stringify({ id }),
       })
 
       const result: ApiResponse = await response.json()
 
       if (result.success) {
         await fetchEntries()
-        showNotification("success", "Note deleted successfully!")
+        toast({
+          title: "Moved to trash",
+          description: `"${entry.title}" was moved to the trash.`,
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => undoDelete(id)}>
+              Undo
+            </ToastAction>
+          ),
+        })
       } else {
         throw new Error(result.error || "Failed to delete")
       }
@@ -477,6 +644,7 @@ export default function Component() {
   // Start editing
   const startEdit = (entry: TextEntry) => {
     setEditingId(entry.id)
+    setEditBase(entry)
     setEditEntry({
       title: entry.title,
       content: entry.content,
@@ -484,6 +652,7 @@ export default function Component() {
       contentError: "",
       isSubmitting: false,
       attachments: entry.attachments || [],
+      tags: entry.tags || [],
       fileError: "",
     })
   }
@@ -491,6 +660,8 @@ export default function Component() {
   // Cancel editing
   const cancelEdit = () => {
     setEditingId(null)
+    setEditBase(null)
+    setConflict(null)
     setEditEntry({
       title: "",
       content: "",
@@ -498,10 +669,45 @@ export default function Component() {
       contentError: "",
       isSubmitting: false,
       attachments: [],
+      tags: [],
       fileError: "",
     })
   }
 
+  // Overwrite the newer saved copy with this edit
+  const keepMyVersion = () => {
+    if (!conflict) return
+    const { id, version } = conflict
+    setConflict(null)
+    updateEntry(id, version)
+  }
+
+  // Drop this edit in favour of the saved copy
+  const takeTheirVersion = async () => {
+    cancelEdit()
+    await fetchEntries()
+    showNotification("success", "Loaded the latest saved version")
+  }
+
+  // Combine both edits into the form and let the user review before saving again
+  const mergeVersions = () => {
+    if (!conflict || !editBase) return
+    const merged = mergeNoteEdits(editBase, editEntry, conflict)
+    setEditEntry((prev) => ({
+      ...prev,
+      title: merged.title,
+      content: merged.content,
+      attachments: merged.attachments,
+      tags: merged.tags,
+    }))
+    setEditBase(conflict)
+    setConflict(null)
+    showNotification(
+      "success",
+      merged.hasConflicts ? "Both versions are in the editor - tidy up the marked section and save" : "Changes merged - save to keep them",
+    )
+  }
+
   // Share URL
   const shareUrl = async () => {
     const url = window.location.href
@@ -529,10 +735,16 @@ export default function Component() {
 
   // Load data when authenticated
   useEffect(() => {
-    if (authToken && currentUser) {
+    if (currentUser) {
       fetchEntries()
     }
-  }, [authToken, currentUser, fetchEntries])
+  }, [currentUser, fetchEntries])
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchVault()
+    }
+  }, [currentUser, fetchVault])
 
   // Show loading screen while checking authentication
   if (isAuthLoading) {
@@ -552,7 +764,7 @@ export default function Component() {
   }
 
   // Show login form if not authenticated
-  if (!authToken || !currentUser) {
+  if (!currentUser) {
     return <LoginForm onLogin={handleLogin} />
   }
 
@@ -584,6 +796,10 @@ export default function Component() {
     )
   }
 
+  // Tags that no longer exist, e.g. after their last note was deleted, drop out of the filter
+  const activeTags = selectedTags.filter((tag) => data.tags.some(({ name }) => name === tag))
+  const visibleEntries = data.entries.filter((entry) => hasAllTags(entry, activeTags))
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50 relative overflow-hidden">
       {/* Animated background elements */}
@@ -622,6 +838,38 @@ export default function Component() {
                     </span>
                   </div>
                   <Chatbot />
+                  <Button
+                    asChild
+                    variant="outline"
+                    className="border-2 border-purple-200 hover:bg-purple-50 hover:border-purple-300 bg-white/80 transition-all duration-200 shadow-sm hover:shadow-md"
+                  >
+                    <Link href="/account">
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Account
+                    </Link>
+                  </Button>
+                  <Button
+                    asChild
+                    variant="outline"
+                    className="border-2 border-purple-200 hover:bg-purple-50 hover:border-purple-300 bg-white/80 transition-all duration-200 shadow-sm hover:shadow-md"
+                  >
+                    <Link href="/trash">
+                      <ArchiveRestore className="w-4 h-4 mr-2" />
+                      Trash
+                    </Link>
+                  </Button>
+                  {currentUser.role === "admin" && (
+                    <Button
+                      asChild
+                      variant="outline"
+                      className="border-2 border-purple-200 hover:bg-purple-50 hover:border-purple-300 bg-white/80 transition-all duration-200 shadow-sm hover:shadow-md"
+                    >
+                      <Link href="/admin">
+                        <Settings className="w-4 h-4 mr-2" />
+                        Admin
+                      </Link>
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     onClick={handleLogout}
@@ -655,11 +903,32 @@ export default function Component() {
                   </Button>
                 </div>
 
-                <div className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-2xl text-sm font-semibold shadow-lg">
-                  <Lock className="w-4 h-4" />
-                  Private & Secure
+                <div className="flex items-center gap-3 flex-wrap">
+                  {vault && (
+                    <VaultUnlock unlocked={!!vaultKey} onUnlock={handleUnlockVault} onLock={() => setVaultKey(null)} />
+                  )}
+                  <div className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-2xl text-sm font-semibold shadow-lg">
+                    <Lock className="w-4 h-4" />
+                    Private & Secure
+                  </div>
                 </div>
               </div>
+
+              {data.usage && data.quota && (
+                <div className="mt-4">
+                  <UsageMeter usage={data.usage} quota={data.quota} />
+                </div>
+              )}
+              {data.demo && (
+                <div className="mt-4 flex items-center gap-3 px-4 py-3 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl text-sm text-amber-900">
+                  <Sparkles className="w-4 h-4 flex-shrink-0" />
+                  <span>
+                    <span className="font-semibold">Demo sandbox:</span> up to {data.demo.maxNotes} notes and{" "}
+                    {formatFileSize(data.demo.maxAttachmentSize)} per attachment. Everything resets on logout and at{" "}
+                    {new Date(data.demo.resetsAt).toLocaleTimeString()}.
+                  </span>
+                </div>
+              )}
             </CardHeader>
           </Card>
         </div>
@@ -720,6 +989,23 @@ export default function Component() {
               )}
             </div>
 
+            {/* Tags are stored in plaintext, so vault notes don't get any */}
+            {!(vaultKey && encryptNew) && (
+              <div className="space-y-2">
+                <label htmlFor="new-tags" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                  <Tag className="w-4 h-4" />
+                  Tags <span className="text-slate-400 font-normal">(Optional)</span>
+                </label>
+                <TagInput
+                  id="new-tags"
+                  tags={newEntry.tags}
+                  suggestions={data.tags.map((tag) => tag.name)}
+                  onChange={(tags) => setNewEntry((prev) => ({ ...prev, tags }))}
+                  disabled={newEntry.isSubmitting}
+                />
+              </div>
+            )}
+
             <div className="space-y-3">
               <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
                 <Paperclip className="w-4 h-4" />
@@ -786,6 +1072,21 @@ export default function Component() {
               )}
             </div>
 
+            {vaultKey && (
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={encryptNew}
+                  onChange={(e) => setEncryptNew(e.target.checked)}
+                  // Files already uploaded were or weren't encrypted to match
+                  disabled={newEntry.isSubmitting || newEntry.attachments.length > 0}
+                  className="w-4 h-4 accent-purple-600"
+                />
+                <Lock className="w-4 h-4" />
+                Encrypt this note in my vault
+              </label>
+            )}
+
             <Button
               onClick={createEntry}
               disabled={newEntry.isSubmitting || !newEntry.title.trim() || !newEntry.content.trim()}
@@ -806,8 +1107,20 @@ export default function Component() {
           </CardContent>
         </Card>
 
+        {/* Tag filter, beside the notes on wide screens */}
+        {data.tags.length > 0 && (
+          <div className="mb-6 lg:float-left lg:w-64 lg:mr-6">
+            <TagSidebar
+              tags={data.tags}
+              selected={activeTags}
+              onSelectedChange={setSelectedTags}
+              onTagsChanged={fetchEntries}
+            />
+          </div>
+        )}
+
         {/* Entries List */}
-        <div className="space-y-6">
+        <div className="space-y-6 lg:flow-root">
           {data.entries.length === 0 ? (
             <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
               <CardContent className="text-center py-20">
@@ -828,7 +1141,7 @@ export default function Component() {
               </CardContent>
             </Card>
           ) : (
-            data.entries.map((entry, index) => (
+            visibleEntries.map((entry, index) => (
               <Card
                 key={entry.id}
                 className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl hover:shadow-3xl transition-all duration-300"
@@ -883,6 +1196,25 @@ export default function Component() {
                       )}
                     </div>
 
+                    {!entry.encrypted && (
+                      <div className="space-y-2">
+                        <label
+                          htmlFor={`edit-tags-${entry.id}`}
+                          className="text-sm font-semibold text-slate-700 flex items-center gap-2"
+                        >
+                          <Tag className="w-4 h-4" />
+                          Tags
+                        </label>
+                        <TagInput
+                          id={`edit-tags-${entry.id}`}
+                          tags={editEntry.tags}
+                          suggestions={data.tags.map((tag) => tag.name)}
+                          onChange={(tags) => setEditEntry((prev) => ({ ...prev, tags }))}
+                          disabled={editEntry.isSubmitting}
+                        />
+                      </div>
+                    )}
+
                     <div className="space-y-3">
                       <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
                         <Paperclip className="w-4 h-4" />
@@ -998,6 +1330,12 @@ export default function Component() {
                                 Updated {new Date(entry.updatedAt).toLocaleDateString()}
                               </span>
                             )}
+                            {entry.encrypted && (
+                              <span className="flex items-center gap-1.5 px-3 py-1.5 bg-gradient-to-r from-violet-50 to-purple-50 rounded-full border border-purple-200">
+                                <Lock className="w-3.5 h-3.5" />
+                                Encrypted
+                              </span>
+                            )}
                             {entry.attachments && entry.attachments.length > 0 && (
                               <span className="flex items-center gap-1.5 px-3 py-1.5 bg-gradient-to-r from-amber-50 to-orange-50 rounded-full border border-amber-200">
                                 <Paperclip className="w-3.5 h-3.5" />
@@ -1008,10 +1346,21 @@ export default function Component() {
                         </div>
 
                         <div className="flex gap-2 flex-shrink-0">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setHistoryEntry(entry)}
+                            disabled={entry.locked}
+                            title="History"
+                            className="h-10 w-10 border-2 border-purple-200 hover:bg-purple-50 hover:border-purple-300 hover:text-purple-700 transition-all duration-200 shadow-sm hover:shadow-md"
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="icon"
                             onClick={() => startEdit(entry)}
+                            disabled={entry.locked}
                             className="h-10 w-10 border-2 border-blue-200 hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700 transition-all duration-200 shadow-sm hover:shadow-md"
                           >
                             <Edit className="w-4 h-4" />
@@ -1028,10 +1377,28 @@ export default function Component() {
                       </div>
                     </CardHeader>
                     <CardContent>
-                      <p className="text-slate-700 whitespace-pre-wrap leading-relaxed text-base break-words">
+                      <p
+                        className={`whitespace-pre-wrap leading-relaxed text-base break-words ${entry.locked && entry.encrypted ? "text-slate-500 italic" : "text-slate-700"}`}
+                      >
                         {entry.content}
                       </p>
 
+                      {entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-4">
+                          {entry.tags.map((tag) => (
+                            <button
+                              key={tag}
+                              type="button"
+                              onClick={() => setSelectedTags((prev) => (prev.includes(tag) ? prev : [...prev, tag]))}
+                              title={`Show notes tagged ${tag}`}
+                              className="px-3 py-1 bg-gradient-to-r from-violet-50 to-purple-50 border border-purple-200 rounded-full text-sm text-purple-700 hover:border-purple-400 transition-all duration-200"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
                       {entry.attachments && entry.attachments.length > 0 && (
                         <div className="mt-6 pt-6 border-t border-purple-100 space-y-3">
                           <h4 className="text-sm font-semibold text-slate-700 flex items-center gap-2 mb-3">
@@ -1061,7 +1428,7 @@ export default function Component() {
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => downloadAttachment(attachment)}
+                                  onClick={() => downloadAttachment(attachment, entry.id)}
                                   className="text-purple-600 hover:text-purple-700 hover:bg-purple-100 flex-shrink-0"
                                 >
                                   <Download className="w-4 h-4" />
@@ -1078,6 +1445,18 @@ export default function Component() {
             ))
           )}
 
+          {data.entries.length > 0 && visibleEntries.length === 0 && (
+            <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+              <CardContent className="py-16 text-center">
+                <div className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-tr from-violet-100 to-purple-100 rounded-3xl mb-6">
+                  <Tag className="w-10 h-10 text-purple-600" />
+                </div>
+                <h3 className="text-2xl font-bold text-slate-800 mb-3">No notes with these tags</h3>
+                <p className="text-slate-600 text-lg">Notes need every selected tag to show up here.</p>
+              </CardContent>
+            </Card>
+          )}
+
           {data.entries.length === 0 && (
             <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
               <CardContent className="py-16 text-center">
@@ -1091,8 +1470,33 @@ export default function Component() {
           )}
         </div>
 
+        {conflict && (
+          <NoteConflictDialog
+            open
+            mine={{ title: editEntry.title, content: editEntry.content, tags: editEntry.tags }}
+            theirs={conflict}
+            onKeepMine={keepMyVersion}
+            onTakeTheirs={takeTheirVersion}
+            onMerge={mergeVersions}
+            onCancel={() => setConflict(null)}
+          />
+        )}
+
+        {historyEntry && (
+          <NoteHistoryDialog
+            noteId={historyEntry.id}
+            noteTitle={historyEntry.title}
+            vaultKey={historyEntry.encrypted && vaultKey ? vaultKey : undefined}
+            onClose={() => setHistoryEntry(null)}
+            onRestored={() => {
+              setHistoryEntry(null)
+              fetchEntries()
+            }}
+          />
+        )}
+
         {/* Footer */}
-        <div className="text-center mt-20 pb-8">
+        <div className="clear-both text-center mt-20 pb-8">
           <div className="inline-flex items-center gap-6 px-8 py-4 bg-white/80 backdrop-blur-xl rounded-3xl shadow-2xl border border-purple-100">
             <div className="flex items-center gap-2 text-sm text-slate-600 font-medium">
               <div className="w-3 h-3 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-full animate-pulse"></div>
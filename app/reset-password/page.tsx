@@ -0,0 +1,172 @@
+"use client"
+
+import type React from "react"
+
+import { Suspense, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle, KeyRound, Loader2, Lock } from "lucide-react"
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token")
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [isDone, setIsDone] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, password }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setIsDone(true)
+      } else {
+        setError(result.error || "Could not reset password")
+      }
+    } catch (error) {
+      setError("Network error. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <Alert className="border-red-200 bg-red-50">
+        <AlertCircle className="h-5 w-5 text-red-600" />
+        <AlertDescription className="text-red-800 font-medium">
+          This reset link is incomplete. Request a new one from the sign-in page.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (isDone) {
+    return (
+      <div className="space-y-5">
+        <Alert className="border-emerald-200 bg-emerald-50">
+          <CheckCircle className="h-5 w-5 text-emerald-600" />
+          <AlertDescription className="text-emerald-800 font-medium">
+            Your password has been updated and all devices were signed out.
+          </AlertDescription>
+        </Alert>
+        <Button
+          asChild
+          className="w-full h-14 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 hover:from-violet-700 hover:via-purple-700 hover:to-fuchsia-700 text-white font-bold text-lg shadow-xl"
+        >
+          <Link href="/">Sign in</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="password" className="text-sm font-bold text-slate-700 flex items-center gap-2">
+          <Lock className="w-4 h-4" />
+          New Password
+        </Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          placeholder="At least 8 characters"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
+          required
+          minLength={8}
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password" className="text-sm font-bold text-slate-700 flex items-center gap-2">
+          <Lock className="w-4 h-4" />
+          Confirm Password
+        </Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className="h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
+          required
+          disabled={isLoading}
+        />
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-5 w-5 text-red-600" />
+          <AlertDescription className="text-red-800 font-medium">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full h-14 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 hover:from-violet-700 hover:via-purple-700 hover:to-fuchsia-700 text-white font-bold text-lg shadow-xl hover:shadow-2xl transition-all duration-300"
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <KeyRound className="w-5 h-5 mr-2" />
+            Set new password
+          </>
+        )}
+      </Button>
+    </form>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+        <CardHeader className="space-y-1 pb-6">
+          <CardTitle className="text-3xl font-bold text-center bg-gradient-to-r from-violet-600 to-fuchsia-600 bg-clip-text text-transparent">
+            Choose a New Password
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {/* useSearchParams needs a Suspense boundary in client pages */}
+          <Suspense fallback={<Loader2 className="w-8 h-8 mx-auto animate-spin text-purple-600" />}>
+            <ResetPasswordForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardHeader } from "@/components/ui/card"
+import TrashList from "@/components/trash-list"
+import { ArrowLeft, ArchiveRestore, Loader2 } from "lucide-react"
+
+interface AuthUser {
+  id: string
+  username: string
+  name: string
+  role: string
+}
+
+export default function TrashPage() {
+  const router = useRouter()
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null)
+
+  // Verify the session cookie before showing the trash
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify", {
+          method: "POST",
+        })
+        const result = await response.json()
+
+        if (result.success && result.user) {
+          setCurrentUser(result.user)
+        } else {
+          router.replace("/")
+        }
+      } catch (error) {
+        console.error("Token verification failed:", error)
+        router.replace("/")
+      }
+    }
+
+    verify()
+  }, [router])
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50 flex items-center justify-center p-4">
+        <Loader2 className="w-10 h-10 animate-spin text-purple-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+          <CardHeader>
+            <div className="flex items-center justify-between flex-wrap gap-4">
+              <div className="flex items-center gap-4">
+                <div className="inline-flex items-center justify-center w-14 h-14 bg-gradient-to-tr from-violet-600 via-purple-600 to-fuchsia-600 rounded-2xl shadow-lg">
+                  <ArchiveRestore className="w-7 h-7 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-4xl font-bold bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 bg-clip-text text-transparent">
+                    Trash
+                  </h1>
+                  <p className="text-slate-600 mt-1 text-lg">Restore deleted notes or remove them for good</p>
+                </div>
+              </div>
+              <Button asChild variant="outline" className="border-2 border-purple-200 hover:bg-purple-50 bg-white/80">
+                <Link href="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to notes
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        <TrashList />
+      </div>
+    </div>
+  )
+}
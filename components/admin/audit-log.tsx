@@ -0,0 +1,264 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { ClipboardList, Loader2, Search } from "lucide-react"
+
+const PAGE_SIZE = 50
+
+interface AuditEvent {
+  id: string
+  action: string
+  actorId?: string
+  actorUsername?: string
+  userId?: string
+  noteId?: string
+  ip?: string
+  userAgent?: string
+  beforeHash?: string
+  afterHash?: string
+  details?: string
+  createdAt: string
+}
+
+interface AuditFilters {
+  username: string
+  action: string
+  noteId: string
+  from: string // yyyy-mm-dd from the date inputs, in local time
+  to: string
+}
+
+const EMPTY_FILTERS: AuditFilters = { username: "", action: "", noteId: "", from: "", to: "" }
+
+function toSearchParams(filters: AuditFilters, offset: number): URLSearchParams {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+  if (filters.username.trim()) params.set("username", filters.username.trim())
+  if (filters.action) params.set("action", filters.action)
+  if (filters.noteId.trim()) params.set("noteId", filters.noteId.trim())
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString())
+  return params
+}
+
+const shortHash = (hash?: string) => (hash ? hash.slice(0, 8) : "—")
+
+export default function AuditLog() {
+  const { toast } = useToast()
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS)
+  const [applied, setApplied] = useState<AuditFilters>(EMPTY_FILTERS)
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [actions, setActions] = useState<string[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchEvents = useCallback(
+    async (query: AuditFilters, offset: number) => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/admin/audit?${toSearchParams(query, offset)}`, {
+          headers: { "Cache-Control": "no-cache" },
+        })
+        const result = await response.json()
+
+        if (!result.success) {
+          throw new Error(result.error || "Failed to load the audit log")
+        }
+
+        setEvents((current) => (offset === 0 ? result.events : [...current, ...result.events]))
+        setActions(result.actions)
+        setHasMore(result.hasMore)
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load the audit log",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [toast],
+  )
+
+  useEffect(() => {
+    fetchEvents(EMPTY_FILTERS, 0)
+  }, [fetchEvents])
+
+  const search = (e: React.FormEvent) => {
+    e.preventDefault()
+    setApplied(filters)
+    fetchEvents(filters, 0)
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="w-10 h-10 bg-gradient-to-tr from-slate-600 to-slate-800 rounded-xl flex items-center justify-center shadow-lg">
+            <ClipboardList className="w-5 h-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-slate-700 to-slate-900 bg-clip-text text-transparent font-bold">
+            Audit Log
+          </span>
+        </CardTitle>
+        <p className="text-slate-600 mt-2">
+          Every sign-in and change to notes and accounts. Hashes fingerprint a note before and after a change without
+          revealing its contents.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={search} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="audit-username" className="text-slate-700 font-semibold">
+              User
+            </Label>
+            <Input
+              id="audit-username"
+              placeholder="Username"
+              value={filters.username}
+              onChange={(e) => setFilters({ ...filters, username: e.target.value })}
+              className="border-2 border-purple-200"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-action" className="text-slate-700 font-semibold">
+              Action
+            </Label>
+            <select
+              id="audit-action"
+              value={filters.action}
+              onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+              className="h-10 w-full rounded-md border-2 border-purple-200 bg-white px-3 text-sm"
+            >
+              <option value="">All actions</option>
+              {actions.map((action) => (
+                <option key={action} value={action}>
+                  {action}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-note" className="text-slate-700 font-semibold">
+              Note ID
+            </Label>
+            <Input
+              id="audit-note"
+              value={filters.noteId}
+              onChange={(e) => setFilters({ ...filters, noteId: e.target.value })}
+              className="border-2 border-purple-200"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-slate-700 font-semibold">
+              From
+            </Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              className="border-2 border-purple-200"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-slate-700 font-semibold">
+              To
+            </Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              className="border-2 border-purple-200"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            Search
+          </Button>
+        </form>
+
+        {events.length === 0 && !isLoading ? (
+          <p className="text-center py-6 text-slate-500">No matching events</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-purple-200">
+                  <th className="py-2 pr-4 font-semibold">Time</th>
+                  <th className="py-2 pr-4 font-semibold">Actor</th>
+                  <th className="py-2 pr-4 font-semibold">Action</th>
+                  <th className="py-2 pr-4 font-semibold">Target</th>
+                  <th className="py-2 pr-4 font-semibold">Before → After</th>
+                  <th className="py-2 pr-4 font-semibold">Client</th>
+                  <th className="py-2 font-semibold">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr key={event.id} className="border-b border-purple-100 align-top">
+                    <td className="py-3 pr-4 text-slate-700 whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </td>
+                    <td className="py-3 pr-4 text-slate-800 font-semibold">
+                      {event.actorUsername ? `@${event.actorUsername}` : "system"}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <span className="text-xs px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full whitespace-nowrap">
+                        {event.action}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-xs text-slate-600">
+                      {event.userId && event.userId !== event.actorId && <p>User {event.userId}</p>}
+                      {event.noteId && <p className="font-mono">{event.noteId}</p>}
+                    </td>
+                    <td className="py-3 pr-4 font-mono text-xs text-slate-600 whitespace-nowrap">
+                      {event.beforeHash || event.afterHash
+                        ? `${shortHash(event.beforeHash)} → ${shortHash(event.afterHash)}`
+                        : "—"}
+                    </td>
+                    <td className="py-3 pr-4 text-xs text-slate-600">
+                      <p>{event.ip || "—"}</p>
+                      {event.userAgent && (
+                        <p className="truncate max-w-[14rem]" title={event.userAgent}>
+                          {event.userAgent}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-3 text-slate-700">{event.details}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={() => fetchEvents(applied, events.length)}
+              disabled={isLoading}
+              className="border-2 border-purple-200 hover:bg-purple-50"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { Ban, Globe, KeyRound, Loader2, RefreshCw, Unlock, User } from "lucide-react"
+
+interface Lockout {
+  kind: "username" | "ip" | "two_factor"
+  identifier: string
+  failures: number
+  firstFailureAt: string
+  lastFailureAt: string
+  lockedUntil: number
+}
+
+export default function LockedAccounts() {
+  const { toast } = useToast()
+  const [lockouts, setLockouts] = useState<Lockout[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [unlockingKey, setUnlockingKey] = useState<string | null>(null)
+
+  const fetchLockouts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/admin/lockouts", {
+        headers: { "Cache-Control": "no-cache" },
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setLockouts(result.lockouts)
+      } else {
+        throw new Error(result.error || "Failed to load lockouts")
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load lockouts",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchLockouts()
+  }, [fetchLockouts])
+
+  const unlock = async (lockout: Lockout) => {
+    const key = `${lockout.kind}:${lockout.identifier}`
+    setUnlockingKey(key)
+    try {
+      const response = await fetch("/api/admin/lockouts", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind: lockout.kind, identifier: lockout.identifier }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to unlock")
+      }
+
+      setLockouts((prev) => prev.filter((l) => `${l.kind}:${l.identifier}` !== key))
+      toast({ title: "Success", description: `Unlocked ${lockout.identifier}` })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to unlock",
+        variant: "destructive",
+      })
+    } finally {
+      setUnlockingKey(null)
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <div className="w-10 h-10 bg-gradient-to-tr from-red-500 to-orange-500 rounded-xl flex items-center justify-center shadow-lg">
+              <Ban className="w-5 h-5 text-white" />
+            </div>
+            <span className="bg-gradient-to-r from-red-600 to-orange-600 bg-clip-text text-transparent font-bold">
+              Locked Accounts
+            </span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={fetchLockouts}
+            disabled={isLoading}
+            className="border-2 border-purple-200 hover:bg-purple-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading...
+          </div>
+        ) : lockouts.length === 0 ? (
+          <p className="text-center py-6 text-slate-500">No accounts or IPs are locked out</p>
+        ) : (
+          lockouts.map((lockout) => {
+            const key = `${lockout.kind}:${lockout.identifier}`
+            return (
+              <div
+                key={key}
+                className="flex items-center justify-between p-4 bg-gradient-to-r from-red-50 to-orange-50 border border-red-200 rounded-xl"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  {lockout.kind === "username" ? (
+                    <User className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  ) : lockout.kind === "two_factor" ? (
+                    <KeyRound className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  ) : (
+                    <Globe className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-slate-800 truncate">{lockout.identifier}</p>
+                    <p className="text-xs text-slate-500">
+                      {lockout.failures} failed {lockout.kind === "two_factor" ? "two-factor codes" : "attempts"} • Locked until{" "}
+                      {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => unlock(lockout)}
+                  disabled={unlockingKey === key}
+                  className="text-emerald-700 hover:bg-emerald-50 flex-shrink-0"
+                >
+                  {unlockingKey === key ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Unlock className="w-4 h-4 mr-1" />
+                  )}
+                  Unlock
+                </Button>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { KeyRound, Loader2, RefreshCw, ShieldCheck } from "lucide-react"
+
+interface DataKey {
+  id: string
+  masterKeyId: string
+  createdAt: string
+}
+
+interface EncryptionStatus {
+  enabled: boolean
+  masterKeyId?: string
+  currentDataKeyId?: string
+  dataKeys: DataKey[]
+}
+
+export default function StorageEncryption() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<EncryptionStatus | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const response = await fetch("/api/admin/encryption", { headers: { "Cache-Control": "no-cache" } })
+      const result = await response.json()
+
+      if (result.success) {
+        setStatus(result)
+      } else {
+        throw new Error(result.error || "Failed to load encryption status")
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load encryption status")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const reencrypt = async (rotate: boolean) => {
+    if (rotate && !confirm("Start a new data key and re-encrypt all stored notes with it?")) return
+
+    setIsRunning(true)
+    try {
+      const response = await fetch("/api/admin/encryption", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rotate }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to re-encrypt notes")
+      }
+
+      setStatus(result)
+      toast({
+        title: "Success",
+        description: `Re-encrypted ${result.reencrypted} values across ${result.scanned} notes`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to re-encrypt notes",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <div className="w-10 h-10 bg-gradient-to-tr from-emerald-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg">
+              <ShieldCheck className="w-5 h-5 text-white" />
+            </div>
+            <span className="bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent font-bold">
+              Encryption at Rest
+            </span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {status?.enabled && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => reencrypt(false)}
+                  disabled={isRunning}
+                  title="Seal any notes not yet encrypted with the current data key"
+                  className="border-2 border-purple-200 hover:bg-purple-50"
+                >
+                  {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+                  Re-encrypt
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => reencrypt(true)}
+                  disabled={isRunning}
+                  title="Start a new data key and re-encrypt everything with it"
+                  className="border-2 border-purple-200 hover:bg-purple-50"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  Rotate key
+                </Button>
+              </>
+            )}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={fetchStatus}
+              disabled={isLoading}
+              className="border-2 border-purple-200 hover:bg-purple-50"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-red-600 text-sm font-medium">{error}</p>}
+        {status && !status.enabled && (
+          <p className="text-slate-600">
+            Notes are stored unencrypted. Set <code>STORAGE_MASTER_KEY</code> to a random 32-byte base64 value to seal
+            them at rest, then re-encrypt to cover existing notes.
+          </p>
+        )}
+        {status?.enabled && (
+          <>
+            <p className="text-slate-600">
+              Notes, revisions and attachments are sealed with data keys wrapped by master key{" "}
+              <span className="font-semibold text-slate-800">{status.masterKeyId}</span>.
+            </p>
+            <div className="space-y-2">
+              {status.dataKeys.map((key) => (
+                <div
+                  key={key.id}
+                  className="flex items-center justify-between gap-4 p-3 bg-gradient-to-br from-slate-50 to-purple-50 rounded-xl border border-purple-200"
+                >
+                  <div>
+                    <p className="font-mono text-sm font-semibold text-slate-800">{key.id}</p>
+                    <p className="text-xs text-slate-500">
+                      Created {new Date(key.createdAt).toLocaleString()} · wrapped by {key.masterKeyId}
+                    </p>
+                  </div>
+                  {key.id === status.currentDataKeyId && (
+                    <span className="px-2 py-1 text-xs font-semibold rounded-lg bg-emerald-100 text-emerald-700">
+                      Current
+                    </span>
+                  )}
+                </div>
+              ))}
+              {status.dataKeys.length === 0 && (
+                <p className="text-sm text-slate-500">A data key is created with the first encrypted write.</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { Database, Loader2, RefreshCw, Wrench } from "lucide-react"
+
+interface StorageHealthProps {
+  totalUsers: number
+  totalNotes: number
+  totalAttachmentBytes: number
+}
+
+interface StorageStatus {
+  isGlobal: boolean
+  storage: string
+  healthy: boolean
+  latencyMs: number
+  checkedAt: string
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + " B"
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB"
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB"
+}
+
+export default function StorageHealth({ totalUsers, totalNotes, totalAttachmentBytes }: StorageHealthProps) {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<StorageStatus | null>(null)
+  const [schemaVersion, setSchemaVersion] = useState<number | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isMigrating, setIsMigrating] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const [response, migrationsResponse] = await Promise.all([
+        fetch("/api/admin/storage", { headers: { "Cache-Control": "no-cache" } }),
+        fetch("/api/admin/migrations", { headers: { "Cache-Control": "no-cache" } }),
+      ])
+      const result = await response.json()
+      const migrations = await migrationsResponse.json()
+
+      if (result.success) {
+        setStatus(result)
+      } else {
+        throw new Error(result.error || "Failed to check storage")
+      }
+      if (migrations.success) {
+        setSchemaVersion(migrations.schemaVersion)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to check storage")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const runMigrations = async () => {
+    setIsMigrating(true)
+    try {
+      const response = await fetch("/api/admin/migrations", { method: "POST" })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to migrate notes")
+      }
+
+      toast({
+        title: "Success",
+        description: `Migrated ${result.migrated} of ${result.scanned} notes to schema v${result.schemaVersion}`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to migrate notes",
+        variant: "destructive",
+      })
+    } finally {
+      setIsMigrating(false)
+    }
+  }
+
+  const stats = [
+    { label: "Backend", value: status ? status.storage : "—" },
+    { label: "Status", value: status ? (status.healthy ? "✅ Healthy" : "❌ Unreachable") : "—" },
+    { label: "Scope", value: status ? (status.isGlobal ? "🌍 Global" : "💾 Local") : "—" },
+    { label: "Latency", value: status ? `${status.latencyMs} ms` : "—" },
+    { label: "Users", value: totalUsers.toString() },
+    { label: "Notes", value: totalNotes.toString() },
+    { label: "Attachments", value: formatFileSize(totalAttachmentBytes) },
+    { label: "Note schema", value: schemaVersion !== null ? `v${schemaVersion}` : "—" },
+  ]
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <div className="w-10 h-10 bg-gradient-to-tr from-blue-500 to-cyan-500 rounded-xl flex items-center justify-center shadow-lg">
+              <Database className="w-5 h-5 text-white" />
+            </div>
+            <span className="bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent font-bold">
+              Storage Health
+            </span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={runMigrations}
+              disabled={isMigrating}
+              title="Migrate all stored notes to the current schema"
+              className="border-2 border-purple-200 hover:bg-purple-50"
+            >
+              {isMigrating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wrench className="w-4 h-4 mr-2" />}
+              Migrate notes
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={fetchStatus}
+              disabled={isLoading}
+              className="border-2 border-purple-200 hover:bg-purple-50"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-red-600 text-sm font-medium mb-4">{error}</p>}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="p-4 bg-gradient-to-br from-slate-50 to-purple-50 rounded-xl border border-purple-200"
+            >
+              <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{stat.label}</p>
+              <p className="text-xl font-bold text-slate-800 mt-1">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+        {status && (
+          <p className="text-xs text-slate-500 mt-4">Last checked {new Date(status.checkedAt).toLocaleTimeString()}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
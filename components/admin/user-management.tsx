@@ -0,0 +1,343 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { Ban, CheckCircle, KeyRound, Loader2, ShieldCheck, UserPlus, Users } from "lucide-react"
+
+export interface AdminUserSummary {
+  id: string
+  username: string
+  name: string
+  email?: string
+  role: string
+  createdAt?: string
+  disabled: boolean
+  twoFactorEnabled: boolean
+  noteCount: number
+  attachmentBytes: number
+}
+
+interface UserManagementProps {
+  users: AdminUserSummary[]
+  currentUserId: string
+  isLoading: boolean
+  onUsersChanged: () => void
+}
+
+const ROLES = ["admin", "user", "demo"]
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + " B"
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB"
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB"
+}
+
+export default function UserManagement({ users, currentUserId, isLoading, onUsersChanged }: UserManagementProps) {
+  const { toast } = useToast()
+  const [newUser, setNewUser] = useState({ username: "", name: "", email: "", password: "", role: "user" })
+  const [isCreating, setIsCreating] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [resettingId, setResettingId] = useState<string | null>(null)
+  const [newPassword, setNewPassword] = useState("")
+
+  const showError = (message: string) => {
+    toast({ title: "Error", description: message, variant: "destructive" })
+  }
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      const response = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(newUser),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to create user")
+      }
+
+      setNewUser({ username: "", name: "", email: "", password: "", role: "user" })
+      onUsersChanged()
+      toast({ title: "Success", description: `Created @${result.user.username}` })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to create user")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const updateUser = async (user: AdminUserSummary, changes: Record<string, unknown>, message: string) => {
+    setUpdatingId(user.id)
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update user")
+      }
+
+      onUsersChanged()
+      toast({ title: "Success", description: message })
+      return true
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to update user")
+      return false
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const toggleDisabled = (user: AdminUserSummary) => {
+    if (!user.disabled && !confirm(`Disable @${user.username}? They will be signed out everywhere.`)) return
+    updateUser(user, { disabled: !user.disabled }, `@${user.username} ${user.disabled ? "enabled" : "disabled"}`)
+  }
+
+  const resetPassword = async (user: AdminUserSummary) => {
+    const updated = await updateUser(user, { password: newPassword }, `Password reset for @${user.username}`)
+    if (updated) {
+      setResettingId(null)
+      setNewPassword("")
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="w-10 h-10 bg-gradient-to-tr from-violet-500 to-purple-500 rounded-xl flex items-center justify-center shadow-lg">
+            <Users className="w-5 h-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-violet-600 to-purple-600 bg-clip-text text-transparent font-bold">
+            Users
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          onSubmit={createUser}
+          className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end p-4 bg-gradient-to-r from-violet-50 to-purple-50 border border-purple-200 rounded-xl"
+        >
+          <div className="space-y-1">
+            <Label htmlFor="new-username" className="text-slate-700 font-semibold">
+              Username
+            </Label>
+            <Input
+              id="new-username"
+              value={newUser.username}
+              onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              className="border-2 border-purple-200"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-name" className="text-slate-700 font-semibold">
+              Name
+            </Label>
+            <Input
+              id="new-name"
+              value={newUser.name}
+              onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+              className="border-2 border-purple-200"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-email" className="text-slate-700 font-semibold">
+              Email
+            </Label>
+            <Input
+              id="new-email"
+              type="email"
+              placeholder="Optional"
+              value={newUser.email}
+              onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+              className="border-2 border-purple-200"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-password" className="text-slate-700 font-semibold">
+              Password
+            </Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              className="border-2 border-purple-200"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-role" className="text-slate-700 font-semibold">
+              Role
+            </Label>
+            <select
+              id="new-role"
+              value={newUser.role}
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value })}
+              className="h-10 w-full rounded-md border-2 border-purple-200 bg-white px-3 text-sm"
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button
+            type="submit"
+            disabled={isCreating}
+            className="bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+            Create
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading users...
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-purple-200">
+                  <th className="py-2 pr-4 font-semibold">User</th>
+                  <th className="py-2 pr-4 font-semibold">Role</th>
+                  <th className="py-2 pr-4 font-semibold">Notes</th>
+                  <th className="py-2 pr-4 font-semibold">Attachments</th>
+                  <th className="py-2 pr-4 font-semibold">Status</th>
+                  <th className="py-2 font-semibold text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => {
+                  const isSelf = user.id === currentUserId
+                  const isUpdating = updatingId === user.id
+
+                  return (
+                    <tr key={user.id} className="border-b border-purple-100 align-top">
+                      <td className="py-3 pr-4">
+                        <p className="font-semibold text-slate-800 flex items-center gap-2">
+                          {user.name}
+                          {user.twoFactorEnabled && <ShieldCheck className="w-4 h-4 text-emerald-500" />}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          @{user.username}
+                          {user.email && ` • ${user.email}`}
+                        </p>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <select
+                          value={user.role}
+                          onChange={(e) =>
+                            updateUser(user, { role: e.target.value }, `@${user.username} is now ${e.target.value}`)
+                          }
+                          disabled={isSelf || isUpdating}
+                          className="h-8 rounded-md border-2 border-purple-200 bg-white px-2 text-sm"
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {role}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-3 pr-4 text-slate-700">{user.noteCount}</td>
+                      <td className="py-3 pr-4 text-slate-700">{formatFileSize(user.attachmentBytes)}</td>
+                      <td className="py-3 pr-4">
+                        {user.disabled ? (
+                          <span className="text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full">Disabled</span>
+                        ) : (
+                          <span className="text-xs px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-full">Active</span>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        {resettingId === user.id ? (
+                          <div className="flex items-center justify-end gap-2">
+                            <Input
+                              type="password"
+                              placeholder="New password"
+                              value={newPassword}
+                              onChange={(e) => setNewPassword(e.target.value)}
+                              className="h-8 w-40 border-2 border-purple-200"
+                              disabled={isUpdating}
+                            />
+                            <Button size="sm" onClick={() => resetPassword(user)} disabled={isUpdating || !newPassword}>
+                              {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setResettingId(null)
+                                setNewPassword("")
+                              }}
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setResettingId(user.id)
+                                setNewPassword("")
+                              }}
+                              disabled={isUpdating}
+                              className="text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+                            >
+                              <KeyRound className="w-4 h-4 mr-1" />
+                              Reset password
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleDisabled(user)}
+                              disabled={isSelf || isUpdating}
+                              className={
+                                user.disabled
+                                  ? "text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                                  : "text-red-600 hover:text-red-700 hover:bg-red-50"
+                              }
+                            >
+                              {isUpdating ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : user.disabled ? (
+                                <CheckCircle className="w-4 h-4 mr-1" />
+                              ) : (
+                                <Ban className="w-4 h-4 mr-1" />
+                              )}
+                              {user.disabled ? "Enable" : "Disable"}
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { Copy, KeyRound, Loader2, Plus, XCircle } from "lucide-react"
+
+interface ApiTokenSummary {
+  id: string
+  name: string
+  scopes: string[]
+  createdAt: string
+  expiresAt?: number
+  lastUsedAt?: string
+}
+
+const SCOPES = [
+  { value: "notes:read", label: "Read notes" },
+  { value: "notes:write", label: "Create, update and delete notes" },
+  { value: "attachments:read", label: "Download attachments" },
+]
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+]
+
+export default function ApiTokens() {
+  const { toast } = useToast()
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<string[]>(["notes:read"])
+  const [expiresInDays, setExpiresInDays] = useState("90")
+  const [isCreating, setIsCreating] = useState(false)
+  const [createdToken, setCreatedToken] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  const showError = useCallback(
+    (message: string) => {
+      toast({ title: "Error", description: message, variant: "destructive" })
+    },
+    [toast],
+  )
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tokens", {
+        headers: { "Cache-Control": "no-cache" },
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setTokens(result.tokens)
+      } else {
+        throw new Error(result.error || "Failed to load tokens")
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to load tokens")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchTokens()
+  }, [fetchTokens])
+
+  const toggleScope = (scope: string) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]))
+  }
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      const response = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+        }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to create token")
+      }
+
+      setCreatedToken(result.token)
+      setName("")
+      setTokens((prev) => [result.apiToken, ...prev])
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to create token")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const revokeToken = async (token: ApiTokenSummary) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return
+
+    setRevokingId(token.id)
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, { method: "DELETE" })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to revoke token")
+      }
+
+      setTokens((prev) => prev.filter((t) => t.id !== token.id))
+      toast({ title: "Success", description: "Token revoked" })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to revoke token")
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const copyToken = async () => {
+    if (!createdToken) return
+    try {
+      await navigator.clipboard.writeText(createdToken)
+      toast({ title: "Success", description: "Token copied to clipboard" })
+    } catch (error) {
+      showError("Could not copy token")
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="w-10 h-10 bg-gradient-to-tr from-amber-500 to-orange-500 rounded-xl flex items-center justify-center shadow-lg">
+            <KeyRound className="w-5 h-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-amber-600 to-orange-600 bg-clip-text text-transparent font-bold">
+            API Tokens
+          </span>
+        </CardTitle>
+        <p className="text-slate-600 mt-2">
+          Use a token from scripts with <code className="text-sm">Authorization: Bearer &lt;token&gt;</code> against{" "}
+          <code className="text-sm">/api/content</code>.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          onSubmit={createToken}
+          className="space-y-4 p-4 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="token-name" className="text-slate-700 font-semibold">
+                Name
+              </Label>
+              <Input
+                id="token-name"
+                placeholder="e.g. CI backup job"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="border-2 border-amber-200"
+                maxLength={50}
+                disabled={isCreating}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="token-expiry" className="text-slate-700 font-semibold">
+                Expires
+              </Label>
+              <select
+                id="token-expiry"
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+                className="h-10 w-full rounded-md border-2 border-amber-200 bg-white px-3 text-sm"
+                disabled={isCreating}
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {SCOPES.map((scope) => (
+              <label key={scope.value} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope.value)}
+                  onChange={() => toggleScope(scope.value)}
+                  disabled={isCreating}
+                  className="accent-amber-500"
+                />
+                <code>{scope.value}</code>
+                <span className="text-slate-500">{scope.label}</span>
+              </label>
+            ))}
+          </div>
+          <Button
+            type="submit"
+            disabled={isCreating || !name.trim() || scopes.length === 0}
+            className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Create token
+          </Button>
+        </form>
+
+        {createdToken && (
+          <div className="p-4 bg-emerald-50 border-2 border-emerald-200 rounded-xl space-y-3">
+            <p className="font-semibold text-emerald-900">Copy your new token now - it won&apos;t be shown again</p>
+            <code className="block px-3 py-2 bg-white border border-emerald-200 rounded-lg font-mono text-sm break-all">
+              {createdToken}
+            </code>
+            <div className="flex gap-3">
+              <Button variant="outline" size="sm" onClick={copyToken}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading tokens...
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-center py-6 text-slate-500">No API tokens yet</p>
+        ) : (
+          tokens.map((token) => {
+            const isExpired = !!token.expiresAt && token.expiresAt < Date.now()
+
+            return (
+              <div
+                key={token.id}
+                className="flex items-center justify-between p-4 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-slate-800 flex items-center gap-2 flex-wrap">
+                    {token.name}
+                    {token.scopes.map((scope) => (
+                      <span key={scope} className="text-xs px-2 py-0.5 bg-white border border-amber-200 rounded-full">
+                        {scope}
+                      </span>
+                    ))}
+                    {isExpired && (
+                      <span className="text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full">Expired</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">
+                    Created {new Date(token.createdAt).toLocaleDateString()} •{" "}
+                    {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : "Never used"} •{" "}
+                    {token.expiresAt
+                      ? `${isExpired ? "Expired" : "Expires"} ${new Date(token.expiresAt).toLocaleDateString()}`
+                      : "No expiry"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeToken(token)}
+                  disabled={revokingId === token.id}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 flex-shrink-0"
+                >
+                  {revokingId === token.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <XCircle className="w-4 h-4 mr-1" />
+                  )}
+                  Revoke
+                </Button>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
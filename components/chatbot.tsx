@@ -77,11 +77,6 @@ export default function Chatbot() {
     setError("")
 
     try {
-      const token = localStorage.getItem("authToken")
-      if (!token) {
-        throw new Error("Authentication required")
-      }
-
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: {
@@ -89,7 +84,6 @@ export default function Chatbot() {
         },
         body: JSON.stringify({
           message: userMessage.text,
-          token,
         }),
       })
 
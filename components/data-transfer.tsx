@@ -0,0 +1,169 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeftRight, Download, Loader2, Upload } from "lucide-react"
+
+type ImportNoteStatus = "new" | "imported" | "duplicate" | "invalid" | "over_quota"
+
+interface ImportReport {
+  dryRun: boolean
+  total: number
+  counts: Record<ImportNoteStatus, number>
+  notes: { title: string; status: ImportNoteStatus; reason?: string; attachments: number; warnings: string[] }[]
+}
+
+const STATUS_STYLES: Record<ImportNoteStatus, { label: string; className: string }> = {
+  new: { label: "Will import", className: "bg-emerald-100 text-emerald-700" },
+  imported: { label: "Imported", className: "bg-emerald-100 text-emerald-700" },
+  duplicate: { label: "Duplicate", className: "bg-slate-100 text-slate-600" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-700" },
+  over_quota: { label: "Over quota", className: "bg-amber-100 text-amber-700" },
+}
+
+interface DataTransferProps {
+  canImport: boolean
+}
+
+export default function DataTransfer({ canImport }: DataTransferProps) {
+  const { toast } = useToast()
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return
+
+    setIsWorking(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+
+      const response = await fetch(`/api/import?dryRun=${dryRun}`, {
+        method: "POST",
+        body: formData,
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Import failed")
+      }
+
+      setReport(result.report)
+      if (!dryRun) {
+        setFile(null)
+        toast({ title: "Success", description: `Imported ${result.report.counts.imported} notes` })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Import failed",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const selectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null)
+    setReport(null)
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="w-10 h-10 bg-gradient-to-tr from-emerald-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg">
+            <ArrowLeftRight className="w-5 h-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent font-bold">
+            Export & Import
+          </span>
+        </CardTitle>
+        <p className="text-slate-600 mt-2">
+          Download all your notes with their attachments, or bring in notes exported from another instance.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-3">
+          <Button asChild variant="outline" className="border-2 border-emerald-200 hover:bg-emerald-50">
+            <a href="/api/export?format=json" download>
+              <Download className="w-4 h-4 mr-2" />
+              Export as JSON
+            </a>
+          </Button>
+          <Button asChild variant="outline" className="border-2 border-emerald-200 hover:bg-emerald-50">
+            <a href="/api/export?format=zip" download>
+              <Download className="w-4 h-4 mr-2" />
+              Export as Markdown ZIP
+            </a>
+          </Button>
+        </div>
+
+        {canImport && (
+          <div className="space-y-4 p-4 bg-gradient-to-r from-emerald-50 to-teal-50 border border-emerald-200 rounded-xl">
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="file"
+                accept=".json,.zip,application/json,application/zip"
+                onChange={selectFile}
+                disabled={isWorking}
+                className="text-sm text-slate-700"
+              />
+              <Button variant="outline" onClick={() => runImport(true)} disabled={!file || isWorking}>
+                {isWorking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                Preview import
+              </Button>
+            </div>
+
+            {report && (
+              <div className="space-y-3">
+                <p className="text-sm text-slate-700">
+                  {report.dryRun ? "Preview: " : ""}
+                  {report.total} notes in file • {report.dryRun ? report.counts.new : report.counts.imported}{" "}
+                  {report.dryRun ? "to import" : "imported"} • {report.counts.duplicate} duplicates •{" "}
+                  {report.counts.invalid} invalid • {report.counts.over_quota} over quota
+                </p>
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {report.notes.map((note, index) => (
+                    <div key={index} className="flex items-start justify-between gap-3 p-2 bg-white rounded-lg text-sm">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-slate-800 truncate">{note.title || "(untitled)"}</p>
+                        {note.reason && <p className="text-xs text-slate-500">{note.reason}</p>}
+                        {note.warnings.map((warning) => (
+                          <p key={warning} className="text-xs text-amber-700">
+                            {warning}
+                          </p>
+                        ))}
+                      </div>
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_STYLES[note.status].className}`}
+                      >
+                        {STATUS_STYLES[note.status].label}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {report.dryRun && report.counts.new > 0 && (
+                  <Button
+                    onClick={() => runImport(false)}
+                    disabled={!file || isWorking}
+                    className="bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 text-white"
+                  >
+                    {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Import {report.counts.new} notes
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -8,17 +8,47 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Loader2, User, Lock, AlertCircle, Sparkles, LogIn } from "lucide-react"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import {
+  Loader2,
+  User,
+  Lock,
+  AlertCircle,
+  Sparkles,
+  LogIn,
+  UserPlus,
+  BadgeCheck,
+  ShieldCheck,
+  KeyRound,
+  Mail,
+  CheckCircle,
+} from "lucide-react"
 
 interface LoginFormProps {
-  onLogin: (token: string) => void
+  onLogin: () => void
+}
+
+type FormMode = "login" | "register" | "forgot"
+
+const MODE_TEXT: Record<FormMode, { heading: string; subtitle: string; title: string }> = {
+  login: { heading: "Welcome Back", subtitle: "Sign in to access your private notes ✨", title: "Sign In" },
+  register: { heading: "Join Us", subtitle: "Create an account to start taking notes ✨", title: "Sign Up" },
+  forgot: { heading: "Forgot Password", subtitle: "We'll email you a link to reset it ✨", title: "Reset Password" },
 }
 
 export default function LoginForm({ onLogin }: LoginFormProps) {
+  const [mode, setMode] = useState<FormMode>("login")
   const [username, setUsername] = useState("")
   const [password, setPassword] = useState("")
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [notice, setNotice] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
+  const [challenge, setChallenge] = useState<string | null>(null)
+  const [otpCode, setOtpCode] = useState("")
+  const [recoveryCode, setRecoveryCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -26,20 +56,24 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
     setError("")
 
     try {
-      const response = await fetch("/api/auth/login", {
+      const response = await fetch(mode === "login" ? "/api/auth/login" : "/api/auth/register", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify(mode === "login" ? { username, password } : { username, password, name, email }),
       })
 
       const result = await response.json()
 
       if (result.success) {
-        onLogin(result.token)
+        onLogin()
+      } else if (result.secondFactorRequired) {
+        setChallenge(result.challenge)
+        setOtpCode("")
+        setRecoveryCode("")
       } else {
-        setError(result.error || "Login failed")
+        setError(result.error || (mode === "login" ? "Login failed" : "Registration failed"))
       }
     } catch (error) {
       setError("Network error. Please try again.")
@@ -48,6 +82,75 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
     }
   }
 
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ identifier: username }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setNotice(result.message)
+      } else {
+        setError(result.error || "Could not send reset link")
+      }
+    } catch (error) {
+      setError("Network error. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const verifySecondFactor = async (code: string) => {
+    if (!challenge) return
+
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/auth/two-factor/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(useRecoveryCode ? { challenge, recoveryCode } : { challenge, code }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        onLogin()
+      } else {
+        setError(result.error || "Verification failed")
+        setOtpCode("")
+      }
+    } catch (error) {
+      setError("Network error. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleVerifySecondFactor = (e: React.FormEvent) => {
+    e.preventDefault()
+    verifySecondFactor(otpCode)
+  }
+
+  const cancelSecondFactor = () => {
+    setChallenge(null)
+    setPassword("")
+    setError("")
+  }
+
   const demoUsers = [
     {
       username: "admin",
@@ -68,10 +171,22 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
   ]
 
   const fillDemoCredentials = (user: (typeof demoUsers)[0]) => {
+    setMode("login")
     setUsername(user.username)
     setPassword(user.password)
   }
 
+  const toggleMode = () => {
+    setMode((prev) => (prev === "login" ? "register" : "login"))
+    setError("")
+  }
+
+  const switchMode = (next: FormMode) => {
+    setMode(next)
+    setError("")
+    setNotice("")
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-fuchsia-50 flex items-center justify-center p-4 relative overflow-hidden">
       {/* Animated background elements */}
@@ -88,85 +203,325 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
             <Sparkles className="w-10 h-10 text-white" />
           </div>
           <h1 className="text-5xl font-black bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 bg-clip-text text-transparent mb-3">
-            Welcome Back
+            {MODE_TEXT[mode].heading}
           </h1>
-          <p className="text-slate-600 text-lg">Sign in to access your private notes ✨</p>
+          <p className="text-slate-600 text-lg">
+            {MODE_TEXT[mode].subtitle}
+          </p>
         </div>
 
         {/* Login Form */}
         <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
           <CardHeader className="space-y-1 pb-6">
             <CardTitle className="text-3xl font-bold text-center bg-gradient-to-r from-violet-600 to-fuchsia-600 bg-clip-text text-transparent">
-              Sign In
+              {MODE_TEXT[mode].title}
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-5">
-              <div className="space-y-2">
-                <Label htmlFor="username" className="text-sm font-bold text-slate-700 flex items-center gap-2">
-                  <User className="w-4 h-4" />
-                  Username
-                </Label>
-                <div className="relative">
-                  <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
-                  <Input
-                    id="username"
-                    type="text"
-                    placeholder="Enter your username"
-                    value={username}
-                    onChange={(e) => setUsername(e.target.value)}
-                    className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
-                    required
-                    disabled={isLoading}
-                  />
+            {challenge ? (
+              <form onSubmit={handleVerifySecondFactor} className="space-y-5">
+                <div className="space-y-3 text-center">
+                  <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-tr from-emerald-500 to-teal-500 rounded-2xl shadow-lg">
+                    <ShieldCheck className="w-6 h-6 text-white" />
+                  </div>
+                  <p className="text-slate-600">
+                    {useRecoveryCode
+                      ? "Enter one of your recovery codes"
+                      : "Enter the 6-digit code from your authenticator app"}
+                  </p>
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="password" className="text-sm font-bold text-slate-700 flex items-center gap-2">
-                  <Lock className="w-4 h-4" />
-                  Password
-                </Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder="Enter your password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
-                    required
+
+                {useRecoveryCode ? (
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
+                    <Input
+                      placeholder="XXXXX-XXXXX"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base font-mono uppercase"
+                      required
+                      autoFocus
+                      disabled={isLoading}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={otpCode}
+                      onChange={setOtpCode}
+                      onComplete={(code: string) => verifySecondFactor(code)}
+                      autoFocus
+                      disabled={isLoading}
+                    >
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} className="h-14 w-12 text-xl border-purple-200" />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertCircle className="h-5 w-5 text-red-600" />
+                    <AlertDescription className="text-red-800 font-medium">{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full h-14 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 hover:from-violet-700 hover:via-purple-700 hover:to-fuchsia-700 text-white font-bold text-lg shadow-xl hover:shadow-2xl transition-all duration-300"
+                  disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : otpCode.length !== 6)}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    <>
+                      <ShieldCheck className="w-5 h-5 mr-2" />
+                      Verify
+                    </>
+                  )}
+                </Button>
+
+                <div className="flex items-center justify-between text-sm">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode((prev) => !prev)
+                      setError("")
+                    }}
+                    className="font-bold text-purple-600 hover:text-purple-700 hover:underline"
                     disabled={isLoading}
-                  />
+                  >
+                    {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={cancelSecondFactor}
+                    className="text-slate-500 hover:text-slate-700 hover:underline"
+                    disabled={isLoading}
+                  >
+                    Back to sign in
+                  </button>
                 </div>
-              </div>
-
-              {error && (
-                <Alert className="border-red-200 bg-red-50">
-                  <AlertCircle className="h-5 w-5 text-red-600" />
-                  <AlertDescription className="text-red-800 font-medium">{error}</AlertDescription>
-                </Alert>
-              )}
-
-              <Button
-                type="submit"
-                className="w-full h-14 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 hover:from-violet-700 hover:via-purple-700 hover:to-fuchsia-700 text-white font-bold text-lg shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-[1.02]"
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                    Signing In...
-                  </>
+              </form>
+            ) : mode === "forgot" ? (
+              <form onSubmit={handleForgotPassword} className="space-y-5">
+                {notice ? (
+                  <Alert className="border-emerald-200 bg-emerald-50">
+                    <CheckCircle className="h-5 w-5 text-emerald-600" />
+                    <AlertDescription className="text-emerald-800 font-medium">{notice}</AlertDescription>
+                  </Alert>
                 ) : (
                   <>
-                    <LogIn className="w-5 h-5 mr-2" />
-                    Sign In
+                    <div className="space-y-2">
+                      <Label htmlFor="identifier" className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                        <Mail className="w-4 h-4" />
+                        Username or Email
+                      </Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
+                        <Input
+                          id="identifier"
+                          type="text"
+                          placeholder="Enter your username or email"
+                          value={username}
+                          onChange={(e) => setUsername(e.target.value)}
+                          className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
+                          required
+                          autoFocus
+                          disabled={isLoading}
+                        />
+                      </div>
+                    </div>
+
+                    {error && (
+                      <Alert className="border-red-200 bg-red-50">
+                        <AlertCircle className="h-5 w-5 text-red-600" />
+                        <AlertDescription className="text-red-800 font-medium">{error}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    <Button
+                      type="submit"
+                      className="w-full h-14 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 hover:from-violet-700 hover:via-purple-700 hover:to-fuchsia-700 text-white font-bold text-lg shadow-xl hover:shadow-2xl transition-all duration-300"
+                      disabled={isLoading || !username.trim()}
+                    >
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                          Sending...
+                        </>
+                      ) : (
+                        <>
+                          <Mail className="w-5 h-5 mr-2" />
+                          Send reset link
+                        </>
+                      )}
+                    </Button>
                   </>
                 )}
-              </Button>
-            </form>
+
+                <p className="text-center text-sm">
+                  <button
+                    type="button"
+                    onClick={() => switchMode("login")}
+                    className="font-bold text-purple-600 hover:text-purple-700 hover:underline"
+                    disabled={isLoading}
+                  >
+                    Back to sign in
+                  </button>
+                </p>
+              </form>
+            ) : (
+              <>
+              <form onSubmit={handleSubmit} className="space-y-5">
+                {mode === "register" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="name" className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                      <BadgeCheck className="w-4 h-4" />
+                      Full Name
+                    </Label>
+                    <div className="relative">
+                      <BadgeCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
+                      <Input
+                        id="name"
+                        type="text"
+                        placeholder="Enter your name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
+                        required
+                        maxLength={50}
+                        disabled={isLoading}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {mode === "register" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="email" className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                      <Mail className="w-4 h-4" />
+                      Email <span className="font-normal text-slate-500">(optional, for password resets)</span>
+                    </Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder="you@example.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
+                        disabled={isLoading}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="username" className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                    <User className="w-4 h-4" />
+                    Username
+                  </Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
+                    <Input
+                      id="username"
+                      type="text"
+                      placeholder="Enter your username"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                      className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password" className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                      <Lock className="w-4 h-4" />
+                      Password
+                    </Label>
+                    {mode === "login" && (
+                      <button
+                        type="button"
+                        onClick={() => switchMode("forgot")}
+                        className="text-sm font-semibold text-purple-600 hover:text-purple-700 hover:underline"
+                        disabled={isLoading}
+                      >
+                        Forgot password?
+                      </button>
+                    )}
+                  </div>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-5 h-5" />
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder={mode === "login" ? "Enter your password" : "At least 8 characters"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-11 h-14 border-2 border-purple-200 focus:border-purple-500 focus:ring-purple-500/20 text-base"
+                      required
+                      minLength={mode === "register" ? 8 : undefined}
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertCircle className="h-5 w-5 text-red-600" />
+                    <AlertDescription className="text-red-800 font-medium">{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full h-14 bg-gradient-to-r from-violet-600 via-purple-600 to-fuchsia-600 hover:from-violet-700 hover:via-purple-700 hover:to-fuchsia-700 text-white font-bold text-lg shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-[1.02]"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      {mode === "login" ? "Signing In..." : "Creating Account..."}
+                    </>
+                  ) : mode === "login" ? (
+                    <>
+                      <LogIn className="w-5 h-5 mr-2" />
+                      Sign In
+                    </>
+                  ) : (
+                    <>
+                      <UserPlus className="w-5 h-5 mr-2" />
+                      Create Account
+                    </>
+                  )}
+                </Button>
+              </form>
+
+              <p className="mt-5 text-center text-sm text-slate-600">
+                {mode === "login" ? "New here?" : "Already have an account?"}{" "}
+                <button
+                  type="button"
+                  onClick={toggleMode}
+                  className="font-bold text-purple-600 hover:text-purple-700 hover:underline"
+                  disabled={isLoading}
+                >
+                  {mode === "login" ? "Create an account" : "Sign in instead"}
+                </button>
+              </p>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -0,0 +1,122 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, GitMerge, Download, Upload } from "lucide-react"
+
+interface NoteVersion {
+  title: string
+  content: string
+  tags?: string[]
+  updatedAt?: string
+}
+
+interface NoteConflictDialogProps {
+  open: boolean
+  mine: NoteVersion
+  theirs: NoteVersion
+  onKeepMine: () => void
+  onTakeTheirs: () => void
+  onMerge: () => void
+  onCancel: () => void
+}
+
+// Tags the other version doesn't have are highlighted, since they're easy to miss in a side-by-side view
+function VersionPreview({
+  label,
+  version,
+  otherTags,
+  accent,
+}: {
+  label: string
+  version: NoteVersion
+  otherTags: string[]
+  accent: string
+}) {
+  return (
+    <div className={`flex-1 min-w-0 p-4 rounded-xl border-2 ${accent}`}>
+      <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">
+        {label}
+        {version.updatedAt && ` • ${new Date(version.updatedAt).toLocaleString()}`}
+      </p>
+      <p className="font-bold text-slate-800 mb-2 break-words">{version.title}</p>
+      <p className="text-sm text-slate-700 whitespace-pre-wrap break-words max-h-60 overflow-y-auto">{version.content}</p>
+      {version.tags && version.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-3">
+          {version.tags.map((tag) => (
+            <span
+              key={tag}
+              title={otherTags.includes(tag) ? undefined : "Not in the other version"}
+              className={`px-2 py-0.5 rounded-full text-xs border ${
+                otherTags.includes(tag)
+                  ? "bg-white/70 border-purple-200 text-purple-700"
+                  : "bg-amber-100 border-amber-300 text-amber-800 font-semibold"
+              }`}
+            >
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function NoteConflictDialog({
+  open,
+  mine,
+  theirs,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge,
+  onCancel,
+}: NoteConflictDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl">
+            <AlertTriangle className="w-6 h-6 text-amber-500" />
+            This note changed while you were editing
+          </DialogTitle>
+          <DialogDescription>
+            Someone (maybe you, in another tab) saved a newer version. Choose which changes to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col md:flex-row gap-4">
+          <VersionPreview
+            label="Your version"
+            version={mine}
+            otherTags={theirs.tags || []}
+            accent="border-purple-200 bg-purple-50"
+          />
+          <VersionPreview
+            label="Saved version"
+            version={theirs}
+            otherTags={mine.tags || []}
+            accent="border-emerald-200 bg-emerald-50"
+          />
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button variant="outline" onClick={onTakeTheirs} className="border-2 border-emerald-200 hover:bg-emerald-50">
+            <Download className="w-4 h-4 mr-2" />
+            Take theirs
+          </Button>
+          <Button variant="outline" onClick={onMerge} className="border-2 border-amber-200 hover:bg-amber-50">
+            <GitMerge className="w-4 h-4 mr-2" />
+            Merge
+          </Button>
+          <Button
+            onClick={onKeepMine}
+            className="bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Keep mine
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
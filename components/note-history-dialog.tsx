@@ -0,0 +1,224 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { diffLines } from "@/lib/text-diff"
+import type { NoteRevision } from "@/lib/types"
+import { decryptText } from "@/lib/vault-crypto"
+import { History, Loader2, RotateCcw } from "lucide-react"
+
+interface NoteHistoryDialogProps {
+  noteId: string
+  noteTitle: string
+  vaultKey?: CryptoKey // Given for encrypted notes, whose revisions are stored as ciphertext
+  onClose: () => void
+  onRestored: () => void
+}
+
+function describeRevision(revision: NoteRevision): string {
+  return `v${revision.version} • ${new Date(revision.createdAt).toLocaleString()}${revision.author ? ` • ${revision.author}` : ""}`
+}
+
+export default function NoteHistoryDialog({
+  noteId,
+  noteTitle,
+  vaultKey,
+  onClose,
+  onRestored,
+}: NoteHistoryDialogProps) {
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<NoteRevision[]>([])
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null)
+
+  const showError = useCallback(
+    (message: string) => {
+      toast({ title: "Error", description: message, variant: "destructive" })
+    },
+    [toast],
+  )
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const response = await fetch(`/api/content/${encodeURIComponent(noteId)}/revisions`, {
+          headers: { "Cache-Control": "no-cache" },
+        })
+        const result = await response.json()
+
+        if (!result.success) {
+          throw new Error(result.error || "Failed to load history")
+        }
+
+        const loaded: NoteRevision[] = vaultKey
+          ? await Promise.all(
+              result.revisions.map(async (revision: NoteRevision) => ({
+                ...revision,
+                title: await decryptText(vaultKey, revision.title),
+                content: await decryptText(vaultKey, revision.content),
+              })),
+            )
+          : result.revisions
+        setRevisions(loaded)
+        setCurrentVersion(result.currentVersion)
+        // Start by comparing the latest version with the one before it
+        setToVersion(loaded[0]?.version ?? null)
+        setFromVersion(loaded[1]?.version ?? loaded[0]?.version ?? null)
+      } catch (error) {
+        showError(error instanceof Error ? error.message : "Failed to load history")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchRevisions()
+  }, [noteId, vaultKey, showError])
+
+  const from = revisions.find((revision) => revision.version === fromVersion)
+  const to = revisions.find((revision) => revision.version === toVersion)
+  const contentDiff = useMemo(() => (from && to ? diffLines(from.content, to.content) : []), [from, to])
+
+  const restoreRevision = async (revision: NoteRevision) => {
+    if (!confirm(`Restore version ${revision.version}? It will be saved as a new version.`)) return
+
+    setRestoringVersion(revision.version)
+    try {
+      const response = await fetch(`/api/content/${encodeURIComponent(noteId)}/revisions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: revision.version }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to restore version")
+      }
+
+      toast({ title: "Success", description: result.message })
+      onRestored()
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to restore version")
+    } finally {
+      setRestoringVersion(null)
+    }
+  }
+
+  const versionSelect = (id: string, label: string, value: number | null, onChange: (version: number) => void) => (
+    <div className="space-y-1 flex-1">
+      <Label htmlFor={id} className="text-slate-700 font-semibold">
+        {label}
+      </Label>
+      <select
+        id={id}
+        value={value ?? ""}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="h-10 w-full rounded-md border-2 border-purple-200 bg-white px-3 text-sm"
+      >
+        {revisions.map((revision) => (
+          <option key={revision.version} value={revision.version}>
+            {describeRevision(revision)}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl">
+            <History className="w-6 h-6 text-purple-600" />
+            History of “{noteTitle}”
+          </DialogTitle>
+          <DialogDescription>
+            Compare any two versions, or restore an old one. Restoring saves it as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading history...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-center py-10 text-slate-500">No earlier versions of this note have been saved yet</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-col md:flex-row gap-4">
+              {versionSelect("history-from", "Compare", fromVersion, setFromVersion)}
+              {versionSelect("history-to", "With", toVersion, setToVersion)}
+            </div>
+
+            {from && to && (
+              <div className="rounded-xl border-2 border-purple-100 overflow-hidden">
+                {from.title !== to.title && (
+                  <div className="px-4 py-2 border-b border-purple-100 text-sm">
+                    <span className="line-through text-red-600 mr-2">{from.title}</span>
+                    <span className="text-emerald-700 font-semibold">{to.title}</span>
+                  </div>
+                )}
+                <pre className="text-sm font-mono whitespace-pre-wrap break-words max-h-80 overflow-y-auto">
+                  {contentDiff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === "added"
+                          ? "bg-emerald-50 text-emerald-800 px-4"
+                          : line.type === "removed"
+                            ? "bg-red-50 text-red-700 line-through px-4"
+                            : "text-slate-700 px-4"
+                      }
+                    >
+                      {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                      {line.text || " "}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {revisions.map((revision) => (
+                <div
+                  key={revision.version}
+                  className="flex items-center justify-between gap-4 p-3 bg-gradient-to-r from-violet-50 to-purple-50 border border-purple-200 rounded-xl"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-slate-800 truncate">{revision.title}</p>
+                    <p className="text-xs text-slate-500">
+                      {describeRevision(revision)}
+                      {revision.version === currentVersion && " • current"}
+                    </p>
+                  </div>
+                  {revision.version !== currentVersion && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreRevision(revision)}
+                      disabled={restoringVersion !== null}
+                      className="border-2 border-purple-200 hover:bg-purple-50 flex-shrink-0"
+                    >
+                      {restoringVersion === revision.version ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                      )}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
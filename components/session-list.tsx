@@ -0,0 +1,270 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import { Monitor, Smartphone, Loader2, LogOut, Search, ShieldAlert, XCircle } from "lucide-react"
+
+interface SessionSummary {
+  id: string
+  userAgent: string
+  ip: string
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: number
+  current: boolean
+}
+
+interface SessionListProps {
+  isAdmin: boolean
+  onSignedOut: () => void
+}
+
+// Rough "Browser on OS" label from a user-agent string
+function describeUserAgent(userAgent: string): string {
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Chrome\//.test(userAgent)
+      ? "Chrome"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : /curl|node|python/i.test(userAgent)
+            ? "Script"
+            : "Unknown browser"
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad/.test(userAgent)
+        ? "iOS"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "unknown OS"
+  return `${browser} on ${os}`
+}
+
+function isMobile(userAgent: string): boolean {
+  return /Android|iPhone|iPad|Mobile/.test(userAgent)
+}
+
+export default function SessionList({ isAdmin, onSignedOut }: SessionListProps) {
+  const { toast } = useToast()
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [viewing, setViewing] = useState<{ username: string; name: string } | null>(null)
+  const [lookupUsername, setLookupUsername] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [isSigningOutEverywhere, setIsSigningOutEverywhere] = useState(false)
+
+  const fetchSessions = useCallback(
+    async (username?: string) => {
+      setIsLoading(true)
+      try {
+        const query = username ? `?username=${encodeURIComponent(username)}` : ""
+
+        const response = await fetch(`/api/auth/sessions${query}`, {
+          headers: { "Cache-Control": "no-cache" },
+        })
+        const result = await response.json()
+
+        if (result.success) {
+          setSessions(result.sessions)
+          setViewing({ username: result.user.username, name: result.user.name })
+        } else {
+          throw new Error(result.error || "Failed to load sessions")
+        }
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load sessions",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [toast],
+  )
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const revoke = async (session: SessionSummary) => {
+    setRevokingId(session.id)
+    try {
+      const response = await fetch("/api/auth/sessions", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: session.id }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to revoke session")
+      }
+
+      if (session.current) {
+        onSignedOut()
+        return
+      }
+
+      setSessions((prev) => prev.filter((s) => s.id !== session.id))
+      toast({ title: "Success", description: "Session revoked" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke session",
+        variant: "destructive",
+      })
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const signOutEverywhere = async () => {
+    if (!confirm("Sign out of all devices, including this one?")) return
+
+    setIsSigningOutEverywhere(true)
+    try {
+      const response = await fetch("/api/auth/logout-all", {
+        method: "POST",
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to sign out")
+      }
+
+      onSignedOut()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out",
+        variant: "destructive",
+      })
+      setIsSigningOutEverywhere(false)
+    }
+  }
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault()
+    fetchSessions(lookupUsername.trim() || undefined)
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <div className="w-10 h-10 bg-gradient-to-tr from-violet-500 to-purple-500 rounded-xl flex items-center justify-center shadow-lg">
+              <Monitor className="w-5 h-5 text-white" />
+            </div>
+            <span className="bg-gradient-to-r from-violet-600 to-purple-600 bg-clip-text text-transparent font-bold">
+              Active Sessions
+            </span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            onClick={signOutEverywhere}
+            disabled={isSigningOutEverywhere}
+            className="border-2 border-red-200 hover:bg-red-50 hover:border-red-300 hover:text-red-700 bg-white/80"
+          >
+            {isSigningOutEverywhere ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="w-4 h-4 mr-2" />
+            )}
+            Sign out everywhere
+          </Button>
+        </div>
+        {viewing && (
+          <p className="text-slate-600 mt-2">
+            Devices signed in as <span className="font-semibold text-purple-600">@{viewing.username}</span>
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin && (
+          <form onSubmit={handleLookup} className="flex items-center gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-purple-400 w-4 h-4" />
+              <Input
+                placeholder="Look up another user's sessions (admin)"
+                value={lookupUsername}
+                onChange={(e) => setLookupUsername(e.target.value)}
+                className="pl-9 border-2 border-purple-200"
+              />
+            </div>
+            <Button type="submit" variant="outline" className="border-2 border-purple-200 hover:bg-purple-50">
+              <ShieldAlert className="w-4 h-4 mr-2" />
+              View
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading sessions...
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-center py-10 text-slate-500">No active sessions</p>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between p-4 bg-gradient-to-r from-violet-50 to-purple-50 border border-purple-200 rounded-xl"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="w-10 h-10 bg-gradient-to-tr from-violet-500 to-purple-500 rounded-lg flex items-center justify-center flex-shrink-0">
+                  {isMobile(session.userAgent) ? (
+                    <Smartphone className="w-5 h-5 text-white" />
+                  ) : (
+                    <Monitor className="w-5 h-5 text-white" />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    {describeUserAgent(session.userAgent)}
+                    {session.current && (
+                      <span className="text-xs px-2 py-0.5 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-full">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {session.ip} • Last active {new Date(session.lastSeenAt).toLocaleString()} • Signed in{" "}
+                    {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => revoke(session)}
+                disabled={revokingId === session.id}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50 flex-shrink-0"
+              >
+                {revokingId === session.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <XCircle className="w-4 h-4 mr-1" />
+                )}
+                Revoke
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Tag, X } from "lucide-react"
+import { isValidTag, normalizeTag, MAX_TAG_LENGTH, MAX_TAGS_PER_NOTE } from "@/lib/tags"
+
+interface TagInputProps {
+  id?: string
+  tags: string[]
+  suggestions: string[] // The user's existing tags, most used first
+  onChange: (tags: string[]) => void
+  disabled?: boolean
+}
+
+const MAX_SUGGESTIONS = 6
+
+export default function TagInput({ id, tags, suggestions, onChange, disabled }: TagInputProps) {
+  const [draft, setDraft] = useState("")
+  const [error, setError] = useState("")
+  const [isFocused, setIsFocused] = useState(false)
+
+  const query = normalizeTag(draft)
+  const matches = suggestions
+    .filter((tag) => !tags.includes(tag) && (!query || tag.startsWith(query)))
+    .slice(0, MAX_SUGGESTIONS)
+  const isFull = tags.length >= MAX_TAGS_PER_NOTE
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value)
+    if (!tag) return
+
+    if (!isValidTag(tag)) {
+      setError(`Use letters, numbers, - and _ only (max ${MAX_TAG_LENGTH} characters)`)
+      return
+    }
+    if (!tags.includes(tag)) {
+      onChange([...tags, tag])
+    }
+    setDraft("")
+    setError("")
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault()
+      addTag(draft)
+    } else if (e.key === "Tab" && query && matches.length > 0) {
+      e.preventDefault()
+      addTag(matches[0])
+    } else if (e.key === "Backspace" && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 min-h-12 px-3 py-2 border-2 border-purple-200 rounded-md bg-white focus-within:border-purple-400 transition-all duration-200">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="flex items-center gap-1 px-2.5 py-1 bg-gradient-to-r from-violet-50 to-purple-50 border border-purple-200 rounded-full text-sm text-purple-700"
+            >
+              #{tag}
+              <button
+                type="button"
+                onClick={() => onChange(tags.filter((item) => item !== tag))}
+                disabled={disabled}
+                className="text-purple-400 hover:text-red-600"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+          <Input
+            id={id}
+            placeholder={isFull ? `Up to ${MAX_TAGS_PER_NOTE} tags` : tags.length ? "Add another..." : "Add tags..."}
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value)
+              setError("")
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            disabled={disabled || isFull}
+            maxLength={MAX_TAG_LENGTH}
+            className="flex-1 min-w-[8rem] h-8 border-0 shadow-none p-0 focus-visible:ring-0"
+          />
+        </div>
+
+        {isFocused && !isFull && matches.length > 0 && (
+          <div className="absolute z-20 mt-1 w-full bg-white border border-purple-200 rounded-xl shadow-xl overflow-hidden">
+            {matches.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                // Keep focus in the input so the list stays open for the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm text-slate-700 hover:bg-purple-50"
+              >
+                <Tag className="w-3.5 h-3.5 text-purple-500" />
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-red-600 text-sm font-medium flex items-center gap-1">
+          <X className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import { Combine, Loader2, PencilLine, Settings, Tag, X } from "lucide-react"
+import { MAX_TAG_LENGTH, type TagCount } from "@/lib/tags"
+
+interface TagSidebarProps {
+  tags: TagCount[]
+  selected: string[] // Notes are filtered to those with every selected tag
+  onSelectedChange: (selected: string[]) => void
+  onTagsChanged: () => void // Called after a rename or merge so the notes can be reloaded
+}
+
+export default function TagSidebar({ tags, selected, onSelectedChange, onTagsChanged }: TagSidebarProps) {
+  const { toast } = useToast()
+  const [isManaging, setIsManaging] = useState(false)
+  const [checked, setChecked] = useState<string[]>([])
+  const [newName, setNewName] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const toggle = (list: string[], tag: string) =>
+    list.includes(tag) ? list.filter((item) => item !== tag) : [...list, tag]
+
+  const stopManaging = () => {
+    setIsManaging(false)
+    setChecked([])
+    setNewName("")
+  }
+
+  // One checked tag is renamed; several are merged into the new name
+  const applyChange = async () => {
+    const action = checked.length === 1 ? "rename" : "merge"
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch("/api/tags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, from: action === "rename" ? checked[0] : checked, to: newName }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to ${action} tags`)
+      }
+
+      toast({
+        title: "Success",
+        description: `${action === "rename" ? "Renamed" : "Merged"} tags on ${result.updated} note${result.updated !== 1 ? "s" : ""}`,
+      })
+      // Renamed tags can't stay in the filter
+      onSelectedChange(selected.filter((tag) => !checked.includes(tag)))
+      stopManaging()
+      onTagsChanged()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${action} tags`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center justify-between gap-3 text-lg">
+          <span className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-gradient-to-tr from-violet-500 to-purple-500 rounded-lg flex items-center justify-center shadow-lg">
+              <Tag className="w-4 h-4 text-white" />
+            </div>
+            <span className="bg-gradient-to-r from-violet-600 to-purple-600 bg-clip-text text-transparent font-bold">
+              Tags
+            </span>
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => (isManaging ? stopManaging() : setIsManaging(true))}
+            className="text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+            title={isManaging ? "Done" : "Rename or merge tags"}
+          >
+            {isManaging ? <X className="w-4 h-4" /> : <Settings className="w-4 h-4" />}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {!isManaging && selected.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onSelectedChange([])}
+            className="text-sm text-purple-600 hover:text-purple-800 font-semibold"
+          >
+            Clear filter ({selected.length})
+          </button>
+        )}
+
+        <div className="space-y-1">
+          {tags.map((tag) =>
+            isManaging ? (
+              <label
+                key={tag.name}
+                className="flex items-center gap-2 px-3 py-2 rounded-xl text-sm text-slate-700 hover:bg-purple-50 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={checked.includes(tag.name)}
+                  onChange={() => setChecked(toggle(checked, tag.name))}
+                  disabled={isSubmitting}
+                  className="w-4 h-4 accent-purple-600"
+                />
+                <span className="flex-1 truncate">#{tag.name}</span>
+                <span className="text-xs text-slate-500">{tag.count}</span>
+              </label>
+            ) : (
+              <button
+                key={tag.name}
+                type="button"
+                onClick={() => onSelectedChange(toggle(selected, tag.name))}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-sm text-left transition-all duration-200 ${
+                  selected.includes(tag.name)
+                    ? "bg-gradient-to-r from-violet-500 to-purple-500 text-white shadow-md"
+                    : "text-slate-700 hover:bg-purple-50"
+                }`}
+              >
+                <span className="flex-1 truncate">#{tag.name}</span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full ${selected.includes(tag.name) ? "bg-white/20" : "bg-purple-100 text-purple-700"}`}
+                >
+                  {tag.count}
+                </span>
+              </button>
+            ),
+          )}
+        </div>
+
+        {isManaging && (
+          <div className="pt-4 mt-2 border-t border-purple-100 space-y-3">
+            <p className="text-xs text-slate-500">
+              Tick one tag to rename it, or several to merge them into one. Applies to every note, including the trash.
+            </p>
+            <Input
+              placeholder="New tag name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              disabled={isSubmitting}
+              maxLength={MAX_TAG_LENGTH}
+              className="border-2 border-purple-200"
+            />
+            <Button
+              onClick={applyChange}
+              disabled={isSubmitting || checked.length === 0 || !newName.trim()}
+              className="w-full bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white"
+            >
+              {isSubmitting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : checked.length > 1 ? (
+                <Combine className="w-4 h-4 mr-2" />
+              ) : (
+                <PencilLine className="w-4 h-4 mr-2" />
+              )}
+              {checked.length > 1 ? `Merge ${checked.length} tags` : "Rename tag"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,216 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import type { TextEntry } from "@/lib/types"
+import { ArchiveRestore, Loader2, Paperclip, Trash2, XCircle } from "lucide-react"
+
+type TrashedEntry = TextEntry & { deletedAt: string }
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Vault notes can only be read on the notes page once the vault is unlocked
+function getDisplayTitle(entry: TrashedEntry): string {
+  return entry.encrypted ? "Encrypted note" : entry.title
+}
+
+export default function TrashList() {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<TrashedEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState(30)
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [isEmptying, setIsEmptying] = useState(false)
+
+  const showError = useCallback(
+    (message: string) => {
+      toast({ title: "Error", description: message, variant: "destructive" })
+    },
+    [toast],
+  )
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch("/api/trash", {
+        headers: { "Cache-Control": "no-cache" },
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setEntries(result.entries)
+        setRetentionDays(result.retentionDays)
+      } else {
+        throw new Error(result.error || "Failed to load trash")
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to load trash")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const restoreEntry = async (entry: TrashedEntry) => {
+    setBusyId(entry.id)
+    try {
+      const response = await fetch(`/api/trash/${encodeURIComponent(entry.id)}`, { method: "POST" })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to restore note")
+      }
+
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id))
+      toast({ title: "Success", description: `"${getDisplayTitle(entry)}" restored` })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to restore note")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const purgeEntry = async (entry: TrashedEntry) => {
+    if (!confirm(`Delete "${getDisplayTitle(entry)}" forever? This can't be undone.`)) return
+
+    setBusyId(entry.id)
+    try {
+      const response = await fetch(`/api/trash/${encodeURIComponent(entry.id)}`, { method: "DELETE" })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete note")
+      }
+
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id))
+      toast({ title: "Success", description: "Note deleted forever" })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to delete note")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const emptyTrash = async () => {
+    if (!confirm(`Delete all ${entries.length} notes in the trash forever? This can't be undone.`)) return
+
+    setIsEmptying(true)
+    try {
+      const response = await fetch("/api/trash", { method: "DELETE" })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to empty trash")
+      }
+
+      setEntries([])
+      toast({ title: "Success", description: "Trash emptied" })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to empty trash")
+    } finally {
+      setIsEmptying(false)
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <CardTitle className="flex items-center gap-3 text-2xl">
+            <div className="w-10 h-10 bg-gradient-to-tr from-slate-500 to-slate-700 rounded-xl flex items-center justify-center shadow-lg">
+              <Trash2 className="w-5 h-5 text-white" />
+            </div>
+            <span className="bg-gradient-to-r from-slate-600 to-slate-800 bg-clip-text text-transparent font-bold">
+              Trash
+            </span>
+          </CardTitle>
+          {entries.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={emptyTrash}
+              disabled={isEmptying}
+              className="border-2 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+            >
+              {isEmptying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <XCircle className="w-4 h-4 mr-2" />}
+              Empty trash
+            </Button>
+          )}
+        </div>
+        <p className="text-slate-600 mt-2">
+          Deleted notes stay here for {retentionDays} days before they are removed for good.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading trash...
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-6 text-slate-500">The trash is empty</p>
+        ) : (
+          entries.map((entry) => {
+            const daysLeft = Math.max(
+              0,
+              Math.ceil((new Date(entry.deletedAt).getTime() + retentionDays * DAY - Date.now()) / DAY),
+            )
+
+            return (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-4 p-4 bg-gradient-to-r from-slate-50 to-gray-50 border border-slate-200 rounded-xl"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-slate-800 truncate">{getDisplayTitle(entry)}</p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {entry.encrypted ? "Unlock your vault after restoring to read it" : entry.content}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1 flex items-center gap-2 flex-wrap">
+                    Deleted {new Date(entry.deletedAt).toLocaleString()} •{" "}
+                    {daysLeft === 1 ? "1 day left" : `${daysLeft} days left`}
+                    {entry.attachments && entry.attachments.length > 0 && (
+                      <span className="inline-flex items-center gap-1">
+                        • <Paperclip className="w-3 h-3" />
+                        {entry.attachments.length}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreEntry(entry)}
+                    disabled={busyId === entry.id}
+                    className="border-2 border-purple-200 hover:bg-purple-50"
+                  >
+                    {busyId === entry.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <ArchiveRestore className="w-4 h-4 mr-1" />
+                    )}
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => purgeEntry(entry)}
+                    disabled={busyId === entry.id}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Delete forever
+                  </Button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,288 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { QRCodeSVG } from "qrcode.react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { useToast } from "@/hooks/use-toast"
+import { ShieldCheck, ShieldOff, Loader2, KeyRound, Copy } from "lucide-react"
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt?: string
+  recoveryCodesRemaining: number
+}
+
+interface Enrollment {
+  secret: string
+  otpauthUri: string
+}
+
+export default function TwoFactorSettings() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [code, setCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [isDisabling, setIsDisabling] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const showError = useCallback(
+    (message: string) => {
+      toast({ title: "Error", description: message, variant: "destructive" })
+    },
+    [toast],
+  )
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/two-factor", {
+        headers: { "Cache-Control": "no-cache" },
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setStatus({
+          enabled: result.enabled,
+          enabledAt: result.enabledAt,
+          recoveryCodesRemaining: result.recoveryCodesRemaining,
+        })
+      } else {
+        throw new Error(result.error || "Failed to load two-factor status")
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to load two-factor status")
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const startEnrollment = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/auth/two-factor", { method: "POST" })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to start enrollment")
+      }
+
+      setEnrollment({ secret: result.secret, otpauthUri: result.otpauthUri })
+      setCode("")
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to start enrollment")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const confirmEnrollment = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/auth/two-factor", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to confirm code")
+      }
+
+      setEnrollment(null)
+      setRecoveryCodes(result.recoveryCodes)
+      setCode("")
+      await fetchStatus()
+      toast({ title: "Success", description: "Two-factor authentication enabled" })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to confirm code")
+      setCode("")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const disable = async () => {
+    setIsSubmitting(true)
+    try {
+      const isRecoveryCode = code.includes("-") || code.length > 6
+      const response = await fetch("/api/auth/two-factor", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(isRecoveryCode ? { recoveryCode: code } : { code }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to disable two-factor authentication")
+      }
+
+      setIsDisabling(false)
+      setCode("")
+      setRecoveryCodes(null)
+      await fetchStatus()
+      toast({ title: "Success", description: "Two-factor authentication disabled" })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to disable two-factor authentication")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"))
+      toast({ title: "Success", description: "Recovery codes copied to clipboard" })
+    } catch (error) {
+      showError("Could not copy recovery codes")
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="w-10 h-10 bg-gradient-to-tr from-emerald-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg">
+            <ShieldCheck className="w-5 h-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent font-bold">
+            Two-Factor Authentication
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!status ? (
+          <div className="flex items-center justify-center py-6 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading...
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-slate-700">
+              Enabled{status.enabledAt ? ` since ${new Date(status.enabledAt).toLocaleDateString()}` : ""}.{" "}
+              <span className="text-slate-500">{status.recoveryCodesRemaining} recovery codes remaining.</span>
+            </p>
+
+            {isDisabling ? (
+              <div className="flex items-center gap-3 flex-wrap">
+                <Input
+                  placeholder="Authenticator or recovery code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="flex-1 border-2 border-purple-200 font-mono"
+                  disabled={isSubmitting}
+                />
+                <Button
+                  onClick={disable}
+                  disabled={isSubmitting || !code.trim()}
+                  className="bg-gradient-to-r from-red-500 to-rose-500 hover:from-red-600 hover:to-rose-600 text-white"
+                >
+                  {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldOff className="w-4 h-4 mr-2" />}
+                  Confirm disable
+                </Button>
+                <Button variant="outline" onClick={() => setIsDisabling(false)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setIsDisabling(true)
+                  setCode("")
+                }}
+                className="border-2 border-red-200 hover:bg-red-50 hover:border-red-300 hover:text-red-700"
+              >
+                <ShieldOff className="w-4 h-4 mr-2" />
+                Disable two-factor
+              </Button>
+            )}
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-5">
+            <p className="text-slate-700">
+              Scan this QR code with your authenticator app, or enter the secret manually, then type the 6-digit code
+              it shows.
+            </p>
+            <div className="flex items-center gap-6 flex-wrap">
+              <div className="p-3 bg-white rounded-xl border-2 border-purple-200">
+                <QRCodeSVG value={enrollment.otpauthUri} size={160} />
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-semibold text-slate-700">Secret key</p>
+                <code className="block px-3 py-2 bg-purple-50 border border-purple-200 rounded-lg font-mono text-sm break-all">
+                  {enrollment.secret}
+                </code>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 flex-wrap">
+              <InputOTP maxLength={6} value={code} onChange={setCode} disabled={isSubmitting}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} className="border-purple-200" />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              <Button
+                onClick={confirmEnrollment}
+                disabled={isSubmitting || code.length !== 6}
+                className="bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 text-white"
+              >
+                {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+                Confirm
+              </Button>
+              <Button variant="outline" onClick={() => setEnrollment(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-slate-700">
+              Protect your account with a one-time code from an authenticator app in addition to your password.
+            </p>
+            <Button
+              onClick={startEnrollment}
+              disabled={isSubmitting}
+              className="bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 text-white"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+              Enable two-factor
+            </Button>
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="p-4 bg-amber-50 border-2 border-amber-200 rounded-xl space-y-3">
+            <p className="font-semibold text-amber-900 flex items-center gap-2">
+              <KeyRound className="w-4 h-4" />
+              Save these recovery codes now - they won&apos;t be shown again
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <code key={recoveryCode} className="px-2 py-1 bg-white rounded border border-amber-200">
+                  {recoveryCode}
+                </code>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                I&apos;ve saved them
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import type { RoleQuota, StorageUsage } from "@/lib/types"
+
+interface UsageMeterProps {
+  usage: StorageUsage
+  quota: Pick<RoleQuota, "maxNotes" | "maxStorageBytes">
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return bytes + " B"
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB"
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB"
+}
+
+function Meter({ label, used, limit, detail }: { label: string; used: number; limit: number; detail: string }) {
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100
+  // Warn as the quota fills up, so the 403/413 doesn't come as a surprise
+  const barColor =
+    percent >= 90
+      ? "from-red-500 to-rose-500"
+      : percent >= 75
+        ? "from-amber-500 to-orange-500"
+        : "from-violet-500 to-purple-500"
+
+  return (
+    <div className="flex-1 min-w-[180px]">
+      <div className="flex items-center justify-between text-xs text-slate-600 mb-1">
+        <span className="font-semibold">{label}</span>
+        <span>{detail}</span>
+      </div>
+      <div
+        className="h-2 bg-purple-100 rounded-full overflow-hidden"
+        role="meter"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={limit}
+        aria-valuenow={used}
+      >
+        <div className={`h-full bg-gradient-to-r ${barColor} rounded-full`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
+
+export default function UsageMeter({ usage, quota }: UsageMeterProps) {
+  // Files uploaded but not saved on a note yet hold their space too
+  const storageUsed = usage.attachmentBytes + usage.pendingUploadBytes
+
+  return (
+    <div className="flex flex-wrap gap-6 px-4 py-3 bg-white/70 border border-purple-100 rounded-xl">
+      <Meter
+        label="Notes"
+        used={usage.notes}
+        limit={quota.maxNotes}
+        detail={`${usage.notes} of ${quota.maxNotes}`}
+      />
+      <Meter
+        label="Attachment storage"
+        used={storageUsed}
+        limit={quota.maxStorageBytes}
+        detail={`${formatBytes(storageUsed)} of ${formatBytes(quota.maxStorageBytes)}`}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import { createVaultParams } from "@/lib/vault-crypto"
+import { KeyRound, Loader2, LockKeyhole, RotateCcw } from "lucide-react"
+
+const MIN_PASSPHRASE_LENGTH = 12
+
+interface VaultStatus {
+  enabled: boolean
+  createdAt?: string
+}
+
+interface VaultSettingsProps {
+  canEnable: boolean
+}
+
+export default function VaultSettings({ canEnable }: VaultSettingsProps) {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<VaultStatus | null>(null)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const showError = useCallback(
+    (message: string) => {
+      toast({ title: "Error", description: message, variant: "destructive" })
+    },
+    [toast],
+  )
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/vault", {
+        headers: { "Cache-Control": "no-cache" },
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setStatus({ enabled: !!result.vault, createdAt: result.createdAt })
+      } else {
+        throw new Error(result.error || "Failed to load vault status")
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to load vault status")
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const passphraseError =
+    passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : confirmation && confirmation !== passphrase
+        ? "Passphrases don't match"
+        : ""
+
+  const setUpVault = async () => {
+    setIsSubmitting(true)
+    try {
+      // Key derivation happens here in the browser; only the salt and a verifier are sent
+      const { params } = await createVaultParams(passphrase)
+      const response = await fetch("/api/vault", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to set up vault")
+      }
+
+      setPassphrase("")
+      setConfirmation("")
+      toast({ title: "Success", description: "Vault set up - unlock it from your notes to write encrypted notes" })
+      await fetchStatus()
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to set up vault")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const resetVault = async () => {
+    if (!confirm("Reset your vault? You can then set it up again with a new passphrase.")) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/vault", { method: "DELETE" })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to reset vault")
+      }
+
+      toast({ title: "Success", description: "Vault reset" })
+      await fetchStatus()
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to reset vault")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="shadow-2xl border-0 bg-white/90 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-2xl">
+          <div className="w-10 h-10 bg-gradient-to-tr from-violet-500 to-purple-500 rounded-xl flex items-center justify-center shadow-lg">
+            <LockKeyhole className="w-5 h-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-violet-600 to-purple-600 bg-clip-text text-transparent font-bold">
+            Encrypted Vault
+          </span>
+        </CardTitle>
+        <p className="text-slate-600 mt-2">
+          Vault notes and their files are encrypted in your browser with a key made from your passphrase. The server
+          only ever stores ciphertext, so nobody - including us - can read them, or recover them if you forget the
+          passphrase.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status ? (
+          <div className="flex items-center justify-center py-6 text-slate-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading...
+          </div>
+        ) : status.enabled ? (
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <p className="text-slate-700">
+              Set up{status.createdAt ? ` on ${new Date(status.createdAt).toLocaleDateString()}` : ""}. Unlock it from
+              your notes to read and write encrypted notes.
+            </p>
+            <Button
+              variant="outline"
+              onClick={resetVault}
+              disabled={isSubmitting}
+              className="border-2 border-red-200 hover:bg-red-50 hover:text-red-700"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+              Reset vault
+            </Button>
+          </div>
+        ) : !canEnable ? (
+          <p className="text-slate-600">Encrypted notes are not available for demo accounts.</p>
+        ) : (
+          <div className="space-y-3">
+            <Input
+              type="password"
+              placeholder="Vault passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="border-2 border-purple-200"
+              disabled={isSubmitting}
+              autoComplete="new-password"
+            />
+            <Input
+              type="password"
+              placeholder="Repeat passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="border-2 border-purple-200"
+              disabled={isSubmitting}
+              autoComplete="new-password"
+            />
+            {passphraseError && <p className="text-red-600 text-sm font-medium">{passphraseError}</p>}
+            <Button
+              onClick={setUpVault}
+              disabled={isSubmitting || !passphrase || passphrase !== confirmation || !!passphraseError}
+              className="bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+              Set up vault
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2, Lock, LockKeyhole, LockOpen } from "lucide-react"
+
+interface VaultUnlockProps {
+  unlocked: boolean
+  onUnlock: (passphrase: string) => Promise<boolean>
+  onLock: () => void
+}
+
+// The key only lives in this tab's memory, so the vault locks again on reload
+export default function VaultUnlock({ unlocked, onUnlock, onLock }: VaultUnlockProps) {
+  const [passphrase, setPassphrase] = useState("")
+  const [error, setError] = useState("")
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsUnlocking(true)
+    setError("")
+    try {
+      if (await onUnlock(passphrase)) {
+        setPassphrase("")
+      } else {
+        setError("Wrong passphrase")
+      }
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  if (unlocked) {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-violet-500 to-purple-500 text-white rounded-2xl text-sm font-semibold shadow-lg">
+          <LockOpen className="w-4 h-4" />
+          Vault unlocked
+        </div>
+        <Button
+          variant="outline"
+          onClick={onLock}
+          className="border-2 border-purple-200 hover:bg-purple-50 hover:border-purple-300 bg-white/80"
+        >
+          <Lock className="w-4 h-4 mr-2" />
+          Lock
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={unlock} className="flex items-center gap-2 flex-wrap">
+      <Input
+        type="password"
+        placeholder="Vault passphrase"
+        value={passphrase}
+        onChange={(e) => {
+          setPassphrase(e.target.value)
+          setError("")
+        }}
+        className={`h-10 w-52 border-2 ${error ? "border-red-300" : "border-purple-200"}`}
+        disabled={isUnlocking}
+        autoComplete="current-password"
+      />
+      <Button
+        type="submit"
+        disabled={isUnlocking || !passphrase}
+        className="bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white"
+      >
+        {isUnlocking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LockKeyhole className="w-4 h-4 mr-2" />}
+        Unlock vault
+      </Button>
+      {error && <span className="text-red-600 text-sm font-medium">{error}</span>}
+    </form>
+  )
+}
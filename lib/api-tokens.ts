@@ -0,0 +1,167 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+import { readValue, writeValue, deleteValue } from "./storage"
+import { getUserById } from "./users"
+import type { AuthSession } from "./auth"
+
+// Prefix makes tokens easy to recognise in scripts and secret scanners
+const TOKEN_PREFIX = "shp_"
+const MAX_TOKENS_PER_USER = 20
+// Only persist last-used updates this often, so every request doesn't cost a write
+const LAST_USED_RESOLUTION = 60 * 1000 // 1 minute
+
+export const API_TOKEN_SCOPES = ["notes:read", "notes:write", "attachments:read"] as const
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number]
+
+export interface ApiTokenRecord {
+  id: string
+  userId: string
+  name: string
+  scopes: ApiTokenScope[]
+  tokenHash: string
+  createdAt: string
+  expiresAt?: number
+  lastUsedAt?: string
+}
+
+function getTokenKey(id: string): string {
+  return `apitoken:${id}`
+}
+
+// Kept apart from the token record, so recording use can never bring back a revoked token
+function getTokenLastUsedKey(id: string): string {
+  return `apitoken:${id}:last-used`
+}
+
+function getUserTokensKey(userId: string): string {
+  return `user:${userId}:apitokens`
+}
+
+// Tokens are high-entropy, so a fast hash is enough to store them
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX)
+}
+
+// Interactive sessions carry every scope; API tokens only the ones they were created with
+export function hasScope(session: AuthSession, scope: ApiTokenScope): boolean {
+  return !session.scopes || session.scopes.includes(scope)
+}
+
+export async function listApiTokens(userId: string): Promise<ApiTokenRecord[]> {
+  const index = (await readValue<string[]>(getUserTokensKey(userId))) || []
+  const records = await Promise.all(
+    index.map(async (id) => {
+      const [record, lastUsedAt] = await Promise.all([
+        readValue<ApiTokenRecord>(getTokenKey(id)),
+        readValue<string>(getTokenLastUsedKey(id)),
+      ])
+      return record && lastUsedAt ? { ...record, lastUsedAt } : record
+    }),
+  )
+
+  return records
+    .filter((record): record is ApiTokenRecord => !!record && record.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Creates a token and returns it alongside its record. The plaintext token is
+ * only available here; afterwards just its hash is kept.
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresAt?: number,
+): Promise<{ record: ApiTokenRecord; token: string } | null> {
+  const index = (await readValue<string[]>(getUserTokensKey(userId))) || []
+  if (index.length >= MAX_TOKENS_PER_USER) {
+    return null
+  }
+
+  const id = Date.now().toString(36) + Math.random().toString(36).substr(2, 8)
+  const token = `${TOKEN_PREFIX}${id}_${randomBytes(24).toString("base64url")}`
+
+  const record: ApiTokenRecord = {
+    id,
+    userId,
+    name: name.trim(),
+    scopes,
+    tokenHash: hashToken(token),
+    createdAt: new Date().toISOString(),
+    expiresAt,
+  }
+
+  await writeValue(getTokenKey(id), record)
+  await writeValue(getUserTokensKey(userId), [...index, id])
+
+  return { record, token }
+}
+
+export async function revokeApiToken(userId: string, id: string): Promise<boolean> {
+  const record = await readValue<ApiTokenRecord>(getTokenKey(id))
+  if (!record || record.userId !== userId) {
+    return false
+  }
+
+  await deleteValue(getTokenKey(id))
+  await deleteValue(getTokenLastUsedKey(id))
+  const index = (await readValue<string[]>(getUserTokensKey(userId))) || []
+  await writeValue(
+    getUserTokensKey(userId),
+    index.filter((tokenId) => tokenId !== id),
+  )
+
+  return true
+}
+
+/**
+ * Looks up a personal API token and builds a session limited to its scopes.
+ * The user's current role applies, and disabled users' tokens stop working.
+ */
+export async function resolveApiToken(token: string): Promise<AuthSession | null> {
+  const match = /^shp_([a-z0-9]+)_[A-Za-z0-9_-]+$/.exec(token)
+  if (!match) {
+    return null
+  }
+
+  const record = await readValue<ApiTokenRecord>(getTokenKey(match[1]))
+  if (!record) {
+    return null
+  }
+
+  const expected = Buffer.from(record.tokenHash, "hex")
+  const actual = Buffer.from(hashToken(token), "hex")
+  if (!timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  if (record.expiresAt && record.expiresAt < Date.now()) {
+    console.log(`🔒 Rejected expired API token ${record.id}`)
+    return null
+  }
+
+  const user = await getUserById(record.userId)
+  if (!user || user.disabled) {
+    return null
+  }
+
+  const lastUsedAt = await readValue<string>(getTokenLastUsedKey(record.id))
+  if (!lastUsedAt || Date.now() - new Date(lastUsedAt).getTime() >= LAST_USED_RESOLUTION) {
+    await writeValue(getTokenLastUsedKey(record.id), new Date().toISOString())
+  }
+
+  return {
+    sessionId: `apitoken:${record.id}`,
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    name: user.name,
+    expiresAt: record.expiresAt ?? Number.MAX_SAFE_INTEGER,
+    scopes: record.scopes,
+  }
+}
@@ -0,0 +1,239 @@
+import { createHash } from "crypto"
+import { getStorageBackend } from "./storage-backend"
+import type { ClientInfo } from "./sessions"
+
+/**
+ * Append-only trail of note and account mutations. Events are written in
+ * pages of AUDIT_PAGE_SIZE, once to a log of everything and once to the log of
+ * each user involved, and never changed afterwards.
+ */
+
+const AUDIT_PAGE_SIZE = 200
+const MAX_QUERY_LIMIT = 200
+
+export const AUDIT_ACTIONS = [
+  "auth.login",
+  "auth.login_failed",
+  "auth.logout",
+  "auth.logout_all",
+  "auth.register",
+  "auth.password_change",
+  "auth.password_reset",
+  "auth.two_factor_enable",
+  "auth.two_factor_disable",
+  "auth.session_revoke",
+  "token.create",
+  "token.revoke",
+  "vault.enable",
+  "vault.reset",
+  "note.create",
+  "note.update",
+  "note.revert",
+  "note.trash",
+  "note.restore",
+  "note.purge",
+  "note.import",
+  "tag.rename",
+  "tag.merge",
+  "admin.user_create",
+  "admin.user_update",
+  "admin.unlock",
+  "admin.migrate",
+  "admin.reencrypt",
+] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export interface AuditEvent {
+  id: string
+  action: AuditAction
+  actorId?: string // Missing for the system's own actions, like trash expiry
+  actorUsername?: string
+  userId?: string // Account whose notes or settings were changed
+  noteId?: string
+  ip?: string
+  userAgent?: string
+  beforeHash?: string // sha256 of the record before the change
+  afterHash?: string // sha256 of the record after the change
+  details?: string
+  createdAt: string
+}
+
+export interface AuditEventInput {
+  action: AuditAction
+  actor?: { userId: string; username: string }
+  client?: ClientInfo
+  userId?: string // Defaults to the actor
+  noteId?: string
+  before?: unknown
+  after?: unknown
+  details?: string
+}
+
+export interface AuditQuery {
+  userId?: string // Only events this user did or was affected by
+  action?: AuditAction
+  noteId?: string
+  from?: string // ISO timestamps, inclusive
+  to?: string
+  limit?: number
+  offset?: number
+}
+
+interface AuditLogHead {
+  pages: number
+}
+
+// "all", or "user:{id}" for one user's events
+function getHeadKey(scope: string): string {
+  return `audit:${scope}:head`
+}
+
+function getPageKey(scope: string, page: number): string {
+  return `audit:${scope}:page:${page}`
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.includes(value as AuditAction)
+}
+
+// Hash of a record's JSON, so the log shows that something changed without copying note text into it
+export function hashAuditState(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex")
+}
+
+// Serialise appends per log in this process so concurrent events don't overwrite each other
+const logLocks = new Map<string, Promise<unknown>>()
+
+function withLogLock<T>(scope: string, task: () => Promise<T>): Promise<T> {
+  const previous = logLocks.get(scope) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  logLocks.set(scope, next)
+  next
+    .finally(() => {
+      if (logLocks.get(scope) === next) {
+        logLocks.delete(scope)
+      }
+    })
+    .catch(() => undefined)
+  return next
+}
+
+async function appendToLog(scope: string, event: AuditEvent): Promise<void> {
+  await withLogLock(scope, async () => {
+    const backend = getStorageBackend()
+    const head = (await backend.get<AuditLogHead>(getHeadKey(scope))) || { pages: 0 }
+    const last = head.pages > 0 ? (await backend.get<AuditEvent[]>(getPageKey(scope, head.pages - 1))) || [] : []
+
+    if (head.pages > 0 && last.length < AUDIT_PAGE_SIZE) {
+      await backend.set(getPageKey(scope, head.pages - 1), [...last, event])
+      return
+    }
+
+    await backend.set(getPageKey(scope, head.pages), [event])
+    await backend.set<AuditLogHead>(getHeadKey(scope), { pages: head.pages + 1 })
+  })
+}
+
+/**
+ * Records an event. Failures are logged rather than thrown, so a problem with
+ * the audit log never undoes or blocks the change it describes.
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  const event: AuditEvent = {
+    id: Date.now().toString(36) + Math.random().toString(36).substr(2, 9),
+    action: input.action,
+    actorId: input.actor?.userId,
+    actorUsername: input.actor?.username,
+    userId: input.userId ?? input.actor?.userId,
+    noteId: input.noteId,
+    ip: input.client?.ip,
+    userAgent: input.client?.userAgent,
+    beforeHash: input.before === undefined ? undefined : hashAuditState(input.before),
+    afterHash: input.after === undefined ? undefined : hashAuditState(input.after),
+    details: input.details,
+    createdAt: new Date().toISOString(),
+  }
+
+  const users = new Set([event.actorId, event.userId].filter((id): id is string => !!id))
+
+  try {
+    await appendToLog("all", event)
+    for (const userId of users) {
+      await appendToLog(`user:${userId}`, event)
+    }
+  } catch (error) {
+    console.error(`❌ Failed to record audit event ${event.action}:`, error)
+  }
+}
+
+function matchesQuery(event: AuditEvent, query: AuditQuery): boolean {
+  return (
+    (!query.action || event.action === query.action) &&
+    (!query.noteId || event.noteId === query.noteId) &&
+    (!query.from || event.createdAt >= query.from) &&
+    (!query.to || event.createdAt <= query.to)
+  )
+}
+
+// Matching events, newest first
+export async function queryAuditLog(query: AuditQuery): Promise<{ events: AuditEvent[]; hasMore: boolean }> {
+  const backend = getStorageBackend()
+  const scope = query.userId ? `user:${query.userId}` : "all"
+  const limit = Math.min(Math.max(query.limit || 50, 1), MAX_QUERY_LIMIT)
+  let skip = Math.max(query.offset || 0, 0)
+
+  const head = await backend.get<AuditLogHead>(getHeadKey(scope))
+  const events: AuditEvent[] = []
+
+  for (let page = (head?.pages || 0) - 1; page >= 0; page--) {
+    // Newest first
+    const pageEvents = ((await backend.get<AuditEvent[]>(getPageKey(scope, page))) || []).reverse()
+
+    for (const event of pageEvents) {
+      if (!matchesQuery(event, query)) continue
+      if (skip > 0) {
+        skip--
+        continue
+      }
+      if (events.length === limit) {
+        return { events, hasMore: true }
+      }
+      events.push(event)
+    }
+
+    // Pages are in time order, so nothing earlier can match once we're past `from`
+    if (query.from && pageEvents.length > 0 && pageEvents[pageEvents.length - 1].createdAt < query.from) {
+      break
+    }
+  }
+
+  return { events, hasMore: false }
+}
+
+// Reads the filters shared by the audit API routes, or returns an error message
+export function parseAuditQuery(params: URLSearchParams): AuditQuery | string {
+  const action = params.get("action")
+  if (action && !isAuditAction(action)) {
+    return "Unknown action"
+  }
+
+  const query: AuditQuery = {
+    action: action && isAuditAction(action) ? action : undefined,
+    noteId: params.get("noteId") || undefined,
+    limit: Number(params.get("limit")) || undefined,
+    offset: Number(params.get("offset")) || undefined,
+  }
+
+  for (const field of ["from", "to"] as const) {
+    const value = params.get(field)
+    if (!value) continue
+    const time = Date.parse(value)
+    if (Number.isNaN(time)) {
+      return `Invalid ${field} date`
+    }
+    query[field] = new Date(time).toISOString()
+  }
+
+  return query
+}
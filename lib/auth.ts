@@ -1,68 +1,353 @@
-import { USERS, type User } from './users'
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { getUserById, getUserByUsername, saveUser, type User } from './users'
+import { hashPassword, simulatePasswordCheck, verifyPassword } from './passwords'
+import { createSessionRecord, getSessionRecord, isSessionActive, touchSession, type ClientInfo } from './sessions'
+import { readValue, writeValue, deleteValue } from './storage'
+import { isTwoFactorEnabled, verifySecondFactor, type SecondFactorInput } from './two-factor'
+import type { ApiTokenScope } from './api-tokens'
 
-const AUTH_SECRET = process.env.AUTH_SECRET || "your-super-secret-key-change-this-in-production"
+const DEFAULT_AUTH_SECRET = "your-super-secret-key-change-this-in-production"
 const SESSION_DURATION = 24 * 60 * 60 * 1000 // 24 hours
+const SECOND_FACTOR_CHALLENGE_DURATION = 5 * 60 * 1000 // 5 minutes
+// Wrong codes a challenge survives before the password step has to be repeated
+const MAX_SECOND_FACTOR_ATTEMPTS = 5
 
 export interface AuthSession {
+  sessionId: string
   userId: string
   username: string
   role: string
   name: string
   expiresAt: number
+  // Only set for personal API tokens; interactive sessions are unrestricted
+  scopes?: ApiTokenScope[]
 }
 
-export function findUserByUsername(username: string): User | null {
-  return USERS.find((user) => user.username.toLowerCase() === username.toLowerCase()) || null
+export type TokenRejectionReason = "malformed" | "bad_signature" | "expired" | "unknown_key" | "revoked"
+
+export type TokenVerificationResult =
+  | { valid: true; session: AuthSession }
+  | { valid: false; reason: TokenRejectionReason }
+
+interface SecondFactorChallenge {
+  purpose: "second_factor"
+  challengeId: string // Wrong codes are counted against this
+  userId: string
+  expiresAt: number
+}
+
+interface TokenHeader {
+  alg: "HS256"
+  typ: "JWT"
+  kid: string
+}
+
+interface SigningKey {
+  kid: string
+  secret: string
+}
+
+// Human-readable messages for each rejection reason, surfaced by /api/auth/verify
+export const TOKEN_REJECTION_MESSAGES: Record<TokenRejectionReason, string> = {
+  malformed: "Malformed token",
+  bad_signature: "Invalid token signature",
+  expired: "Token has expired",
+  unknown_key: "Token was signed with an unknown key",
+  revoked: "Session has been signed out",
+}
+
+/**
+ * The key ring is read from the environment:
+ * - AUTH_SECRET / AUTH_KEY_ID: the active key used to sign new tokens
+ * - AUTH_PREVIOUS_SECRETS: comma-separated "kid:secret" pairs that are still
+ *   accepted for verification, so tokens survive a rotation until they expire
+ */
+function getSigningKey(): SigningKey {
+  const secret = process.env.AUTH_SECRET
+
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("AUTH_SECRET must be set in production")
+    }
+    return { kid: "dev", secret: DEFAULT_AUTH_SECRET }
+  }
+
+  return { kid: process.env.AUTH_KEY_ID || "default", secret }
+}
+
+function getVerificationKeys(): Map<string, string> {
+  const keys = new Map<string, string>()
+  const active = getSigningKey()
+  keys.set(active.kid, active.secret)
+
+  const previous = process.env.AUTH_PREVIOUS_SECRETS || ""
+  for (const pair of previous.split(",")) {
+    const separator = pair.indexOf(":")
+    if (separator <= 0) continue
+
+    const kid = pair.slice(0, separator).trim()
+    const secret = pair.slice(separator + 1).trim()
+    if (kid && secret && !keys.has(kid)) {
+      keys.set(kid, secret)
+    }
+  }
+
+  return keys
+}
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url")
+}
+
+function base64UrlDecode(value: string): string {
+  return Buffer.from(value, "base64url").toString()
+}
+
+function sign(input: string, secret: string): string {
+  return createHmac("sha256", secret).update(input).digest("base64url")
 }
 
-export function findUserById(id: string): User | null {
-  return USERS.find((user) => user.id === id) || null
+export async function findUserByUsername(username: string): Promise<User | null> {
+  return getUserByUsername(username)
 }
 
-export async function authenticateUser(username: string, password: string): Promise<User | null> {
-  const user = findUserByUsername(username)
+export async function findUserById(id: string): Promise<User | null> {
+  return getUserById(id)
+}
+
+export type AuthenticationResult =
+  | { status: "authenticated"; user: User }
+  | { status: "second_factor_required"; user: User; challenge: string }
+  | { status: "disabled" }
+  | { status: "invalid" }
+
+export async function authenticateUser(username: string, password: string): Promise<AuthenticationResult> {
+  const user = await findUserByUsername(username)
   if (!user) {
-    return null
+    await simulatePasswordCheck(password)
+    return { status: "invalid" }
+  }
+
+  const { valid, needsRehash } = await verifyPassword(password, user.passwordHash)
+  if (!valid) {
+    return { status: "invalid" }
+  }
+
+  // Transparently upgrade plaintext or outdated hashes on successful login
+  if (needsRehash) {
+    user.passwordHash = await hashPassword(password)
+    await saveUser(user)
+    console.log(`🔐 Upgraded password hash for user ${user.username}`)
+  }
+
+  // Only reveal that an account is disabled to someone who knows its password
+  if (user.disabled) {
+    return { status: "disabled" }
+  }
+
+  // Users with two-factor enabled get a short-lived challenge instead of a session
+  if (isTwoFactorEnabled(user)) {
+    return { status: "second_factor_required", user, challenge: createSecondFactorChallenge(user) }
+  }
+
+  return { status: "authenticated", user }
+}
+
+// HS256 JWS: header.payload.signature, with the key id in the header
+function signToken(payload: object): string {
+  const { kid, secret } = getSigningKey()
+  const header: TokenHeader = { alg: "HS256", typ: "JWT", kid }
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`
+
+  return `${signingInput}.${sign(signingInput, secret)}`
+}
+
+function isJsonObject(value: unknown): value is object {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function verifySignedToken<T extends { expiresAt: number }>(
+  token: string,
+): { valid: true; payload: T } | { valid: false; reason: TokenRejectionReason } {
+  const parts = token.split(".")
+  if (parts.length !== 3) {
+    return { valid: false, reason: "malformed" }
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts
+
+  let header: TokenHeader
+  let payload: T
+  try {
+    header = JSON.parse(base64UrlDecode(encodedHeader))
+    payload = JSON.parse(base64UrlDecode(encodedPayload))
+  } catch {
+    return { valid: false, reason: "malformed" }
+  }
+
+  // Valid JSON isn't necessarily an object, e.g. "null"
+  if (!isJsonObject(header) || !isJsonObject(payload)) {
+    return { valid: false, reason: "malformed" }
+  }
+
+  if (header.alg !== "HS256" || typeof header.kid !== "string") {
+    return { valid: false, reason: "malformed" }
+  }
+
+  const secret = getVerificationKeys().get(header.kid)
+  if (!secret) {
+    return { valid: false, reason: "unknown_key" }
+  }
+
+  const expected = Buffer.from(sign(`${encodedHeader}.${encodedPayload}`, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "bad_signature" }
   }
 
-  // Simplified password check for demo
-  if (user.passwordHash === password) {
-    return user
+  if (typeof payload.expiresAt !== "number" || payload.expiresAt < Date.now()) {
+    return { valid: false, reason: "expired" }
   }
 
-  return null
+  return { valid: true, payload }
 }
 
-export function createSessionToken(user: User): string {
+export function createSessionToken(user: User, sessionId: string, expiresAt: number): string {
   const session: AuthSession = {
+    sessionId,
     userId: user.id,
     username: user.username,
     role: user.role,
     name: user.name,
-    expiresAt: Date.now() + SESSION_DURATION,
+    expiresAt,
   }
 
-  // In production, use proper JWT signing
-  return Buffer.from(JSON.stringify(session)).toString("base64")
+  return signToken(session)
 }
 
-export function verifySessionToken(token: string): AuthSession | null {
-  try {
-    const sessionData = JSON.parse(Buffer.from(token, "base64").toString())
+export function verifySessionTokenWithReason(token: string): TokenVerificationResult {
+  const result = verifySignedToken<AuthSession & { purpose?: string }>(token)
+  if (!result.valid) {
+    return result
+  }
 
-    if (sessionData.expiresAt < Date.now()) {
-      return null // Token expired
-    }
+  // Challenge tokens share the signing keys but must never work as a session
+  if (result.payload.purpose || typeof result.payload.sessionId !== "string") {
+    return { valid: false, reason: "malformed" }
+  }
+
+  return { valid: true, session: result.payload }
+}
+
+function createSecondFactorChallenge(user: User): string {
+  const challenge: SecondFactorChallenge = {
+    purpose: "second_factor",
+    challengeId: randomBytes(16).toString("hex"),
+    userId: user.id,
+    expiresAt: Date.now() + SECOND_FACTOR_CHALLENGE_DURATION,
+  }
 
-    return sessionData as AuthSession
-  } catch (error) {
-    console.error("Token verification error:", error)
+  return signToken(challenge)
+}
+
+function getChallengeFailuresKey(challengeId: string): string {
+  return `auth:challenge:${challengeId}:failures`
+}
+
+export interface PendingSecondFactor {
+  user: User
+  challengeId: string
+}
+
+// Check the challenge from the password step; null if it's invalid, expired or has had too many wrong codes
+export async function getSecondFactorChallenge(challenge: string): Promise<PendingSecondFactor | null> {
+  const result = verifySignedToken<SecondFactorChallenge>(challenge)
+  if (!result.valid || result.payload.purpose !== "second_factor" || typeof result.payload.challengeId !== "string") {
+    return null
+  }
+
+  const { challengeId, userId } = result.payload
+  const failures = (await readValue<number>(getChallengeFailuresKey(challengeId))) || 0
+  if (failures >= MAX_SECOND_FACTOR_ATTEMPTS) {
     return null
   }
+
+  const user = await findUserById(userId)
+  if (!user || user.disabled) {
+    return null
+  }
+
+  return { user, challengeId }
+}
+
+// Complete a two-factor login: the challenge proves the password step, the code the second factor
+export async function completeSecondFactor(pending: PendingSecondFactor, input: SecondFactorInput): Promise<boolean> {
+  const key = getChallengeFailuresKey(pending.challengeId)
+
+  if (await verifySecondFactor(pending.user, input)) {
+    await deleteValue(key)
+    return true
+  }
+
+  await writeValue(key, ((await readValue<number>(key)) || 0) + 1)
+  return false
+}
+
+export interface IssuedSession {
+  token: string
+  expiresAt: number
+}
+
+// Record a new server-side session for the user and issue its token
+export async function startSession(user: User, client: ClientInfo): Promise<IssuedSession> {
+  const expiresAt = Date.now() + SESSION_DURATION
+  const record = await createSessionRecord(user.id, client, expiresAt)
+
+  return { token: createSessionToken(user, record.id, expiresAt), expiresAt }
+}
+
+/**
+ * Verifies the token signature and then checks the session registry, so
+ * signed-out sessions are rejected even though their token hasn't expired.
+ */
+export async function resolveSessionWithReason(token: string, client?: ClientInfo): Promise<TokenVerificationResult> {
+  const result = verifySessionTokenWithReason(token)
+  if (!result.valid) {
+    return result
+  }
+
+  const record = await getSessionRecord(result.session.sessionId)
+  if (!record || record.userId !== result.session.userId || !isSessionActive(record)) {
+    return { valid: false, reason: "revoked" }
+  }
+
+  await touchSession(record, client)
+
+  return result
+}
+
+export async function resolveSession(token: string, client?: ClientInfo): Promise<AuthSession | null> {
+  const result = await resolveSessionWithReason(token, client)
+  if (!result.valid) {
+    console.log(`🔒 Rejected session token: ${result.reason}`)
+    return null
+  }
+
+  return result.session
+}
+
+export function verifySessionToken(token: string): AuthSession | null {
+  const result = verifySessionTokenWithReason(token)
+  if (!result.valid) {
+    console.log(`🔒 Rejected session token: ${result.reason}`)
+    return null
+  }
+
+  return result.session
 }
 
-export function getUserFromSession(token: string): User | null {
-  const session = verifySessionToken(token)
+export async function getUserFromSession(token: string): Promise<User | null> {
+  const session = await resolveSession(token)
   if (!session) {
     return null
   }
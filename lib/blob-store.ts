@@ -0,0 +1,308 @@
+import { createHash } from "crypto"
+import { createReadStream, promises as fs } from "fs"
+import path from "path"
+import { Readable } from "stream"
+import { getStorageBackend } from "./storage-backend"
+import {
+  isSealedValue,
+  isStorageEncryptionEnabled,
+  needsResealing,
+  openValue,
+  sealValue,
+  type SealedValue,
+} from "./storage-encryption"
+
+/**
+ * Attachment bytes live here rather than inside note JSON. Blobs are keyed by
+ * the sha256 of their content, so the same file attached twice is stored once.
+ */
+export interface BlobStore {
+  name: string
+  put(hash: string, data: Buffer): Promise<void>
+  // Inclusive byte range, matching HTTP Range semantics
+  read(hash: string, range?: { start: number; end: number }): Promise<ReadableStream<Uint8Array> | null>
+  delete(hash: string): Promise<void>
+  // Rewrites a blob with the current storage data key, for stores that encrypt at rest
+  reencrypt?(hash: string): Promise<boolean>
+}
+
+export interface BlobInfo {
+  hash: string
+  size: number
+  // Number of attachments pointing at this blob; it is deleted when this reaches zero
+  refs: number
+  createdAt: string
+}
+
+function toStream(data: Buffer, range?: { start: number; end: number }): ReadableStream<Uint8Array> {
+  const slice = range ? data.subarray(range.start, range.end + 1) : data
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(slice))
+      controller.close()
+    },
+  })
+}
+
+/**
+ * Files under data/blobs/ab/abcdef.... Raw files are streamed straight from
+ * disk; with a storage master key configured blobs are sealed like notes
+ * instead and written to abcdef....sealed, so a raw file is never mistaken
+ * for one.
+ */
+function createFileBlobStore(): BlobStore {
+  const directory = process.env.BLOB_DIR || path.join(process.cwd(), "data", "blobs")
+
+  const getBlobPath = (hash: string) => path.join(directory, hash.slice(0, 2), hash)
+  const getSealedPath = (hash: string) => `${getBlobPath(hash)}.sealed`
+
+  const writeFile = async (file: string, data: string | Buffer) => {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    const tempFile = `${file}.${process.pid}.${Math.random().toString(36).substr(2, 6)}.tmp`
+    await fs.writeFile(tempFile, data)
+    await fs.rename(tempFile, file)
+  }
+
+  const readSealed = async (hash: string): Promise<SealedValue | null> => {
+    try {
+      return JSON.parse(await fs.readFile(getSealedPath(hash), "utf8")) as SealedValue
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null
+      }
+      throw error
+    }
+  }
+
+  const put = async (hash: string, data: Buffer) => {
+    const sealed = await sealValue(data.toString("base64"))
+    if (isSealedValue(sealed)) {
+      await writeFile(getSealedPath(hash), JSON.stringify(sealed))
+      await fs.rm(getBlobPath(hash), { force: true })
+    } else {
+      await writeFile(getBlobPath(hash), data)
+      await fs.rm(getSealedPath(hash), { force: true })
+    }
+  }
+
+  return {
+    name: "file",
+    put,
+    async read(hash, range) {
+      const sealed = await readSealed(hash)
+      if (sealed) {
+        return toStream(Buffer.from((await openValue<string>(sealed))!, "base64"), range)
+      }
+
+      const file = getBlobPath(hash)
+      try {
+        await fs.access(file)
+      } catch {
+        return null
+      }
+      const stream = createReadStream(file, range)
+      return Readable.toWeb(stream) as ReadableStream<Uint8Array>
+    },
+    async delete(hash) {
+      await fs.rm(getBlobPath(hash), { force: true })
+      await fs.rm(getSealedPath(hash), { force: true })
+    },
+    async reencrypt(hash) {
+      const sealed = await readSealed(hash)
+      if (sealed) {
+        if (!(await needsResealing(sealed))) {
+          return false
+        }
+        await put(hash, Buffer.from((await openValue<string>(sealed))!, "base64"))
+        return true
+      }
+
+      // Blobs written before encryption was turned on
+      if (!isStorageEncryptionEnabled()) {
+        return false
+      }
+      let data: Buffer
+      try {
+        data = await fs.readFile(getBlobPath(hash))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return false
+        }
+        throw error
+      }
+      await put(hash, data)
+      return true
+    },
+  }
+}
+
+// Base64 values in the key-value backend, for deployments without a writable disk.
+// Sealed like notes when a storage master key is configured
+function createKvBlobStore(): BlobStore {
+  const getBlobKey = (hash: string) => `blob:${hash}:data`
+
+  return {
+    name: "kv",
+    async put(hash, data) {
+      await getStorageBackend().set(getBlobKey(hash), await sealValue(data.toString("base64")))
+    },
+    async read(hash, range) {
+      const encoded = await openValue(await getStorageBackend().get<string | SealedValue>(getBlobKey(hash)))
+      if (encoded === null) {
+        return null
+      }
+      return toStream(Buffer.from(encoded, "base64"), range)
+    },
+    async delete(hash) {
+      await getStorageBackend().delete(getBlobKey(hash))
+    },
+    async reencrypt(hash) {
+      const stored = await getStorageBackend().get<string | SealedValue>(getBlobKey(hash))
+      if (stored === null || !(await needsResealing(stored))) {
+        return false
+      }
+      await getStorageBackend().set(getBlobKey(hash), await sealValue(await openValue(stored)))
+      return true
+    },
+  }
+}
+
+let blobStore: BlobStore | null = null
+
+/**
+ * BLOB_STORE picks where attachment bytes go: "file" or "kv". Without it,
+ * shared storage backends like Vercel KV keep blobs alongside everything else
+ * and local backends write them to disk.
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    const configured = process.env.BLOB_STORE || (getStorageBackend().isGlobal ? "kv" : "file")
+
+    switch (configured) {
+      case "file":
+        blobStore = createFileBlobStore()
+        break
+      case "kv":
+        blobStore = createKvBlobStore()
+        break
+      default:
+        throw new Error(`Unknown BLOB_STORE "${configured}"`)
+    }
+
+    console.log(`📦 Using ${blobStore.name} blob store`)
+  }
+
+  return blobStore
+}
+
+function getBlobInfoKey(hash: string): string {
+  return `blob:${hash}`
+}
+
+export function hashBlob(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+// Reference counts are read-modify-write, so serialise changes per blob in this process
+const blobLocks = new Map<string, Promise<unknown>>()
+
+function withBlobLock<T>(hash: string, task: () => Promise<T>): Promise<T> {
+  const previous = blobLocks.get(hash) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  blobLocks.set(hash, next)
+  next
+    .finally(() => {
+      if (blobLocks.get(hash) === next) {
+        blobLocks.delete(hash)
+      }
+    })
+    .catch(() => undefined)
+  return next
+}
+
+export async function getBlobInfo(hash: string): Promise<BlobInfo | null> {
+  return getStorageBackend().get<BlobInfo>(getBlobInfoKey(hash))
+}
+
+/**
+ * Stores the bytes (unless an identical blob already exists) and takes a
+ * reference to them. Returns the blob's hash.
+ */
+export async function addBlobReference(data: Buffer): Promise<string> {
+  const hash = hashBlob(data)
+
+  await withBlobLock(hash, async () => {
+    const info = await getBlobInfo(hash)
+    if (info) {
+      await getStorageBackend().set<BlobInfo>(getBlobInfoKey(hash), { ...info, refs: info.refs + 1 })
+      return
+    }
+
+    await getBlobStore().put(hash, data)
+    await getStorageBackend().set<BlobInfo>(getBlobInfoKey(hash), {
+      hash,
+      size: data.length,
+      refs: 1,
+      createdAt: new Date().toISOString(),
+    })
+  })
+
+  return hash
+}
+
+// Takes another reference to an existing blob; false if there is no such blob
+export async function retainBlobReference(hash: string): Promise<boolean> {
+  return withBlobLock(hash, async () => {
+    const info = await getBlobInfo(hash)
+    if (!info) {
+      return false
+    }
+
+    await getStorageBackend().set<BlobInfo>(getBlobInfoKey(hash), { ...info, refs: info.refs + 1 })
+    return true
+  })
+}
+
+// Drops one reference, deleting the blob once nothing points at it
+export async function releaseBlobReference(hash: string): Promise<void> {
+  await withBlobLock(hash, async () => {
+    const info = await getBlobInfo(hash)
+    if (!info) {
+      return
+    }
+
+    if (info.refs > 1) {
+      await getStorageBackend().set<BlobInfo>(getBlobInfoKey(hash), { ...info, refs: info.refs - 1 })
+      return
+    }
+
+    await getBlobStore().delete(hash)
+    await getStorageBackend().delete(getBlobInfoKey(hash))
+    console.log(`🗑️ Deleted unreferenced blob ${hash}`)
+  })
+}
+
+// Rewrites a blob with the current storage data key; false if that wasn't needed
+export async function reencryptBlob(hash: string): Promise<boolean> {
+  const store = getBlobStore()
+  if (!store.reencrypt) {
+    return false
+  }
+  return withBlobLock(hash, () => store.reencrypt!(hash))
+}
+
+export async function readBlob(
+  hash: string,
+  range?: { start: number; end: number },
+): Promise<ReadableStream<Uint8Array> | null> {
+  return getBlobStore().read(hash, range)
+}
+
+// Reads a whole blob into memory - for exports, where every file is needed anyway
+export async function readBlobData(hash: string): Promise<Buffer | null> {
+  const stream = await readBlob(hash)
+  if (!stream) {
+    return null
+  }
+  return Buffer.from(await new Response(stream).arrayBuffer())
+}
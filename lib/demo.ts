@@ -0,0 +1,98 @@
+import { readValue, writeValue, saveUserEntries } from "./storage"
+import { CURRENT_SCHEMA_VERSION } from "./migrations"
+import { ROLE_QUOTAS } from "./users"
+import type { TextEntry } from "./types"
+
+// The demo account is a public sandbox: small limits, sample content, and periodic resets
+// Note count and file size come from the demo role's quota; the rest is sandbox-only
+export const DEMO_LIMITS = {
+  maxNotes: ROLE_QUOTAS.demo.maxNotes,
+  maxAttachmentSize: ROLE_QUOTAS.demo.maxFileSize,
+  maxAttachmentsPerNote: 2,
+}
+
+const DEMO_RESET_INTERVAL = Number(process.env.DEMO_RESET_INTERVAL_MINUTES || 60) * 60 * 1000
+
+const SAMPLE_NOTES: { title: string; content: string; tags: string[] }[] = [
+  {
+    title: "👋 Welcome to the demo",
+    content:
+      "This is a sandbox account. Feel free to create, edit and delete notes - everything here is reset automatically every hour and whenever you log out.",
+    tags: ["demo"],
+  },
+  {
+    title: "Shopping list",
+    content: "- Coffee beans\n- Oat milk\n- Sourdough\n- Basil",
+    tags: ["personal", "shopping"],
+  },
+  {
+    title: "Meeting notes",
+    content:
+      "Agenda:\n1. Review last sprint\n2. Plan the release\n3. Open questions\n\nAction items go at the bottom so they are easy to find.",
+    tags: ["work"],
+  },
+]
+
+interface DemoState {
+  lastResetAt: number
+}
+
+function getDemoStateKey(userId: string): string {
+  return `demo:${userId}:state`
+}
+
+function buildSampleNotes(userId: string): TextEntry[] {
+  const now = new Date().toISOString()
+  return SAMPLE_NOTES.map((note, index) => ({
+    id: `demo-${index + 1}`,
+    title: note.title,
+    content: note.content,
+    createdAt: now,
+    updatedAt: now,
+    userId,
+    attachments: [],
+    tags: note.tags,
+    version: 1,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  }))
+}
+
+// Wipe the demo user's notes and put the sample notes back
+export async function resetDemoData(userId: string): Promise<void> {
+  await saveUserEntries(userId, buildSampleNotes(userId))
+  await writeValue<DemoState>(getDemoStateKey(userId), { lastResetAt: Date.now() })
+  console.log(`🧹 Reset demo data for user ${userId}`)
+}
+
+/**
+ * Seeds the demo sandbox on first use and resets it once the reset interval
+ * has passed. Called lazily from the content routes, so no scheduler is needed.
+ */
+export async function ensureDemoSandbox(userId: string): Promise<{ resetsAt: string }> {
+  const state = await readValue<DemoState>(getDemoStateKey(userId))
+  let lastResetAt = state?.lastResetAt ?? 0
+
+  if (Date.now() - lastResetAt >= DEMO_RESET_INTERVAL) {
+    await resetDemoData(userId)
+    lastResetAt = Date.now()
+  }
+
+  return { resetsAt: new Date(lastResetAt + DEMO_RESET_INTERVAL).toISOString() }
+}
+
+export interface DemoLimitViolation {
+  error: string
+  status: 403
+}
+
+// Returns the reason a demo write would exceed the sandbox limits, or null. Quotas are checked separately
+export function checkDemoLimits(attachments: { id: string }[] | undefined): DemoLimitViolation | null {
+  if (attachments && attachments.length > DEMO_LIMITS.maxAttachmentsPerNote) {
+    return {
+      error: `Demo accounts are limited to ${DEMO_LIMITS.maxAttachmentsPerNote} attachments per note`,
+      status: 403,
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,105 @@
+// How many leading bytes sniffMimeType needs to see
+export const SNIFF_LENGTH = 4096
+
+interface MagicSignature {
+  mimeType: string
+  offset?: number
+  bytes: number[]
+}
+
+const MAGIC_SIGNATURES: MagicSignature[] = [
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mimeType: "image/bmp", bytes: [0x42, 0x4d] },
+  { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: "application/zip", bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+  { mimeType: "audio/mpeg", bytes: [0x49, 0x44, 0x33] },
+  { mimeType: "audio/wav", offset: 8, bytes: [0x57, 0x41, 0x56, 0x45] },
+  { mimeType: "audio/ogg", bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mimeType: "video/mp4", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+]
+
+// Formats that share a container with a more generic type: the declared type is kept if it's one of these
+const SPECIALISATIONS: Record<string, string[]> = {
+  "application/zip": [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    "application/epub+zip",
+  ],
+  "text/plain": ["text/markdown", "text/csv", "application/json"],
+}
+
+const DEFAULT_ALLOWED_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "application/json",
+  "application/zip",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+]
+
+function matchesSignature(head: Buffer, { offset = 0, bytes }: MagicSignature): boolean {
+  return head.length >= offset + bytes.length && bytes.every((byte, index) => head[offset + index] === byte)
+}
+
+// Text if it decodes as UTF-8 and has no control characters other than whitespace
+function looksLikeText(head: Buffer): boolean {
+  if (head.length === 0) {
+    return true
+  }
+  // Don't reject a multi-byte character that was cut off at the end of the sample
+  const text = head.toString("utf8")
+  const body = head.length >= SNIFF_LENGTH ? text.replace(/\uFFFD{1,3}$/, "") : text
+  return !/[\u0000-\u0008\u000B\u000E-\u001F\uFFFD]/.test(body)
+}
+
+/**
+ * Works out a file's type from its first bytes rather than trusting the
+ * client. The declared type is only used to pick between formats that can't
+ * be told apart by content, such as a .docx and a plain ZIP.
+ */
+export function sniffMimeType(head: Buffer, declaredType?: string): string {
+  const signature = MAGIC_SIGNATURES.find((candidate) => matchesSignature(head, candidate))
+  const sniffed = signature?.mimeType ?? (looksLikeText(head) ? "text/plain" : "application/octet-stream")
+
+  const declared = declaredType?.split(";")[0].trim().toLowerCase()
+  if (declared && SPECIALISATIONS[sniffed]?.includes(declared)) {
+    return declared
+  }
+
+  return sniffed
+}
+
+/**
+ * ATTACHMENT_ALLOWED_TYPES is a comma-separated list of MIME types, where
+ * "image/*" style wildcards match a whole family. Unset, common documents,
+ * images and text are allowed.
+ */
+export function getAllowedMimeTypes(): string[] {
+  const configured = process.env.ATTACHMENT_ALLOWED_TYPES
+  if (!configured) {
+    return DEFAULT_ALLOWED_TYPES
+  }
+  return configured
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+export function isMimeTypeAllowed(mimeType: string): boolean {
+  return getAllowedMimeTypes().some(
+    (allowed) => allowed === "*/*" || allowed === mimeType || (allowed.endsWith("/*") && mimeType.startsWith(allowed.slice(0, -1))),
+  )
+}
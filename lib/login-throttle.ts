@@ -0,0 +1,156 @@
+import { NextResponse } from "next/server"
+import { readValue, writeValue, deleteValue } from "./storage"
+
+export const THROTTLE_KINDS = ["username", "ip", "two_factor"] as const
+
+export type ThrottleKind = (typeof THROTTLE_KINDS)[number]
+
+// Failures allowed before lockouts start; IPs get more room since they can be shared
+// Two-factor codes are counted per username on their own, so passing the password step doesn't reset them
+const FREE_ATTEMPTS: Record<ThrottleKind, number> = { username: 5, ip: 20, two_factor: 5 }
+const BASE_LOCKOUT = 30 * 1000 // 30 seconds, doubled for every further failure
+const MAX_LOCKOUT = 60 * 60 * 1000 // 1 hour
+// Counters reset after this long without a failure
+const ATTEMPT_WINDOW = 60 * 60 * 1000 // 1 hour
+
+const LOCKOUT_INDEX_KEY = "login:lockouts"
+
+export interface AttemptRecord {
+  kind: ThrottleKind
+  identifier: string
+  failures: number
+  firstFailureAt: string
+  lastFailureAt: string
+  lockedUntil?: number
+}
+
+export type ThrottleResult = { allowed: true } | { allowed: false; retryAfterSeconds: number }
+
+function getAttemptKey(kind: ThrottleKind, identifier: string): string {
+  return `login:attempts:${kind}:${identifier.toLowerCase()}`
+}
+
+function isExpired(record: AttemptRecord): boolean {
+  return Date.now() - new Date(record.lastFailureAt).getTime() > ATTEMPT_WINDOW &&
+    (!record.lockedUntil || record.lockedUntil < Date.now())
+}
+
+async function getAttempts(kind: ThrottleKind, identifier: string): Promise<AttemptRecord | null> {
+  const record = await readValue<AttemptRecord>(getAttemptKey(kind, identifier))
+  return record && !isExpired(record) ? record : null
+}
+
+function getTargets(username: string | null, ip: string, userKind: ThrottleKind = "username"): [ThrottleKind, string][] {
+  const targets: [ThrottleKind, string][] = [["ip", ip]]
+  if (username) {
+    targets.unshift([userKind, username])
+  }
+  return targets
+}
+
+async function checkTargets(targets: [ThrottleKind, string][]): Promise<ThrottleResult> {
+  let lockedUntil = 0
+
+  for (const [kind, identifier] of targets) {
+    const record = await getAttempts(kind, identifier)
+    if (record?.lockedUntil && record.lockedUntil > lockedUntil) {
+      lockedUntil = record.lockedUntil
+    }
+  }
+
+  if (lockedUntil > Date.now()) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((lockedUntil - Date.now()) / 1000) }
+  }
+
+  return { allowed: true }
+}
+
+// Check whether a login attempt may proceed for this username and IP
+export async function checkLoginThrottle(username: string | null, ip: string): Promise<ThrottleResult> {
+  return checkTargets(getTargets(username, ip))
+}
+
+// Check whether another two-factor code may be tried for this user and IP
+export async function checkSecondFactorThrottle(username: string, ip: string): Promise<ThrottleResult> {
+  return checkTargets(getTargets(username, ip, "two_factor"))
+}
+
+export function tooManyAttemptsResponse(retryAfterSeconds: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Too many failed attempts. Try again in ${retryAfterSeconds} seconds.`,
+      retryAfter: retryAfterSeconds,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } },
+  )
+}
+
+// Count a failed attempt, locking the username or IP with exponential backoff once over the limit
+async function recordFailures(targets: [ThrottleKind, string][]): Promise<void> {
+  const now = new Date().toISOString()
+
+  for (const [kind, identifier] of targets) {
+    const existing = await getAttempts(kind, identifier)
+    const record: AttemptRecord = existing
+      ? { ...existing, failures: existing.failures + 1, lastFailureAt: now }
+      : { kind, identifier: identifier.toLowerCase(), failures: 1, firstFailureAt: now, lastFailureAt: now }
+
+    const excess = record.failures - FREE_ATTEMPTS[kind]
+    if (excess >= 0) {
+      record.lockedUntil = Date.now() + Math.min(BASE_LOCKOUT * 2 ** excess, MAX_LOCKOUT)
+      await addToLockoutIndex(getAttemptKey(kind, identifier))
+      console.log(`🚫 Locked ${kind} ${identifier} after ${record.failures} failed logins`)
+    }
+
+    await writeValue(getAttemptKey(kind, identifier), record)
+  }
+}
+
+export async function recordFailedLogin(username: string | null, ip: string): Promise<void> {
+  await recordFailures(getTargets(username, ip))
+}
+
+export async function recordFailedSecondFactor(username: string, ip: string): Promise<void> {
+  await recordFailures(getTargets(username, ip, "two_factor"))
+}
+
+// A successful login clears the username's failures (the IP keeps its count)
+export async function clearFailedLogins(username: string): Promise<void> {
+  await deleteValue(getAttemptKey("username", username))
+}
+
+// Only a correct code clears two-factor failures
+export async function clearFailedSecondFactors(username: string): Promise<void> {
+  await deleteValue(getAttemptKey("two_factor", username))
+}
+
+async function addToLockoutIndex(key: string): Promise<void> {
+  const index = (await readValue<string[]>(LOCKOUT_INDEX_KEY)) || []
+  if (!index.includes(key)) {
+    await writeValue(LOCKOUT_INDEX_KEY, [...index, key])
+  }
+}
+
+// List usernames and IPs that are currently locked out, pruning stale index entries
+export async function listLockouts(): Promise<AttemptRecord[]> {
+  const index = (await readValue<string[]>(LOCKOUT_INDEX_KEY)) || []
+  const records = await Promise.all(index.map((key) => readValue<AttemptRecord>(key)))
+
+  const locked = records.filter(
+    (record): record is AttemptRecord => !!record?.lockedUntil && record.lockedUntil > Date.now(),
+  )
+
+  if (locked.length !== index.length) {
+    await writeValue(
+      LOCKOUT_INDEX_KEY,
+      locked.map((record) => getAttemptKey(record.kind, record.identifier)),
+    )
+  }
+
+  return locked
+}
+
+export async function unlock(kind: ThrottleKind, identifier: string): Promise<void> {
+  await deleteValue(getAttemptKey(kind, identifier))
+}
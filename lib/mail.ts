@@ -0,0 +1,98 @@
+import { promises as fs } from "fs"
+import path from "path"
+import nodemailer from "nodemailer"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = "Private Notes <no-reply@localhost>"
+
+function getSender(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM
+}
+
+// Prints mail to the server log - the default when nothing else is configured
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`)
+    },
+  }
+}
+
+// Writes each message as a JSON file, so tests and local tooling can pick it up
+function createFileTransport(): MailTransport {
+  const directory = process.env.MAIL_FILE_DIR || path.join(process.cwd(), "data", "mail")
+
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true })
+      const file = path.join(directory, `${Date.now()}-${Math.random().toString(36).substr(2, 6)}.json`)
+      await fs.writeFile(
+        file,
+        JSON.stringify({ from: getSender(), ...message, sentAt: new Date().toISOString() }, null, 2),
+      )
+      console.log(`📧 Mail to ${message.to} written to ${file}`)
+    },
+  }
+}
+
+function createSmtpTransport(): MailTransport {
+  const port = Number(process.env.SMTP_PORT || 587)
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  })
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from: getSender(), ...message })
+      console.log(`📧 Mail to ${message.to} sent via SMTP`)
+    },
+  }
+}
+
+let transport: MailTransport | null = null
+
+/**
+ * MAIL_TRANSPORT picks the transport: "smtp", "file" or "console". Without it,
+ * SMTP is used when SMTP_HOST is set and the console otherwise.
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const configured = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console")
+
+    switch (configured) {
+      case "smtp":
+        transport = createSmtpTransport()
+        break
+      case "file":
+        transport = createFileTransport()
+        break
+      case "console":
+        transport = createConsoleTransport()
+        break
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT "${configured}"`)
+    }
+  }
+
+  return transport
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message)
+}
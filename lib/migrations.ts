@@ -0,0 +1,69 @@
+import { addBlobReference } from "./blob-store"
+import type { FileAttachment, TextEntry } from "./types"
+
+interface NoteMigration {
+  version: number // The schema version a note has once this migration has run
+  description: string
+  migrate: (entry: TextEntry) => TextEntry | Promise<TextEntry>
+}
+
+// Move inline file bytes into the blob store, keeping only metadata on the note
+export async function storeAttachmentData(attachment: FileAttachment): Promise<FileAttachment> {
+  const { data, ...metadata } = attachment
+  const bytes = Buffer.from(data || "", "base64")
+  const hash = await addBlobReference(bytes)
+  return { ...metadata, size: bytes.length, hash }
+}
+
+/**
+ * Every change to the stored shape of a note, oldest first. Append new ones
+ * with the next version number; never edit or reorder one that has shipped.
+ * Notes saved before schema versioning count as version 0.
+ */
+const NOTE_MIGRATIONS: NoteMigration[] = [
+  {
+    version: 1,
+    description: "Start the edit version of older notes at 1",
+    migrate: (entry) => (entry.version ? entry : { ...entry, version: 1 }),
+  },
+  {
+    version: 2,
+    description: "Move inline attachment data into the blob store",
+    migrate: async (entry) => ({
+      ...entry,
+      attachments: await Promise.all(
+        (entry.attachments || []).map((attachment) => (attachment.data ? storeAttachmentData(attachment) : attachment)),
+      ),
+    }),
+  },
+  {
+    version: 3,
+    description: "Give older notes an empty tag list",
+    migrate: (entry) => (Array.isArray(entry.tags) ? entry : { ...entry, tags: [] }),
+  },
+]
+
+export const CURRENT_SCHEMA_VERSION = NOTE_MIGRATIONS[NOTE_MIGRATIONS.length - 1].version
+
+export function listMigrations(): { version: number; description: string }[] {
+  return NOTE_MIGRATIONS.map(({ version, description }) => ({ version, description }))
+}
+
+export function needsMigration(entry: TextEntry): boolean {
+  return (entry.schemaVersion || 0) < CURRENT_SCHEMA_VERSION
+}
+
+/**
+ * Brings a stored note up to the current schema by running the migrations it
+ * hasn't had yet, in order. Some migrations take blob references, so the
+ * result must be written back and callers must hold the user's index lock.
+ */
+export async function migrateEntry(entry: TextEntry): Promise<TextEntry> {
+  let migrated = entry
+  for (const migration of NOTE_MIGRATIONS) {
+    if (migration.version > (migrated.schemaVersion || 0)) {
+      migrated = { ...(await migration.migrate(migrated)), schemaVersion: migration.version }
+    }
+  }
+  return migrated
+}
@@ -0,0 +1,74 @@
+export interface NoteDraft<A extends { id: string } = { id: string }> {
+  title: string
+  content: string
+  attachments?: A[]
+  tags?: string[]
+}
+
+export interface MergedNote<A extends { id: string }> {
+  title: string
+  content: string
+  attachments: A[]
+  tags: string[]
+  hasConflicts: boolean
+}
+
+// Three-way pick for a single field: whichever side changed wins, otherwise flag it
+function mergeField(base: string, mine: string, theirs: string): { value: string; conflict: boolean } {
+  if (mine === theirs || theirs === base) {
+    return { value: mine, conflict: false }
+  }
+  if (mine === base) {
+    return { value: theirs, conflict: false }
+  }
+  return { value: mine, conflict: true }
+}
+
+/**
+ * Three-way merge for a list of items by key: mine are kept unless they
+ * removed them since the base, and items they added are appended. A tag
+ * renamed on their side is therefore swapped rather than kept twice.
+ */
+function mergeList<T>(base: T[], mine: T[], theirs: T[], getKey: (item: T) => string): T[] {
+  const baseKeys = new Set(base.map(getKey))
+  const mineKeys = new Set(mine.map(getKey))
+  const theirKeys = new Set(theirs.map(getKey))
+
+  return [
+    ...mine.filter((item) => theirKeys.has(getKey(item)) || !baseKeys.has(getKey(item))),
+    ...theirs.filter((item) => !mineKeys.has(getKey(item)) && !baseKeys.has(getKey(item))),
+  ]
+}
+
+/**
+ * Combines two edits of the same note made from a common base. Fields changed
+ * on only one side are taken as-is; content changed on both sides is kept in
+ * full between conflict markers for the user to tidy up before saving.
+ * Attachments and tags are merged item by item.
+ */
+export function mergeNoteEdits<A extends { id: string }>(
+  base: NoteDraft<A>,
+  mine: NoteDraft<A>,
+  theirs: NoteDraft<A>,
+): MergedNote<A> {
+  const title = mergeField(base.title, mine.title, theirs.title)
+  const content = mergeField(base.content, mine.content, theirs.content)
+
+  const attachments = mergeList(
+    base.attachments || [],
+    mine.attachments || [],
+    theirs.attachments || [],
+    (attachment) => attachment.id,
+  )
+  const tags = mergeList(base.tags || [], mine.tags || [], theirs.tags || [], (tag) => tag)
+
+  return {
+    title: title.value,
+    content: content.conflict
+      ? `<<<<<<< Your version\n${mine.content}\n=======\n${theirs.content}\n>>>>>>> Their version`
+      : content.value,
+    attachments,
+    tags,
+    hasConflicts: title.conflict || content.conflict,
+  }
+}
@@ -0,0 +1,500 @@
+import { createHash } from "crypto"
+import { strFromU8, strToU8, unzipSync, zipSync, type Unzipped, type Zippable } from "fflate"
+import { getUserEntries, getTrashedEntries, createUserEntry, getStorageUsage } from "./storage"
+import { readBlobData } from "./blob-store"
+import { createPendingUpload, releasePendingUpload } from "./uploads"
+import { isMimeTypeAllowed, sniffMimeType, SNIFF_LENGTH } from "./file-types"
+import { parseTagList } from "./tags"
+import type { RoleQuota, TextEntry } from "./types"
+
+// Identifies our export files; bump EXPORT_VERSION when the layout changes incompatibly
+export const EXPORT_FORMAT = "share-here-notes"
+export const EXPORT_VERSION = 1
+
+const MAX_TITLE_LENGTH = 100
+const MAX_CONTENT_LENGTH = 5000
+
+// Limits on what a ZIP import may unpack to, checked against the sizes the archive declares
+const MAX_ZIP_ENTRIES = 10000
+const MAX_ZIP_NOTE_SIZE = 64 * 1024 // 64KB per Markdown file
+const MAX_UNZIPPED_SIZE = 200 * 1024 * 1024 // 200MB in total
+
+export interface ExportedAttachment {
+  id: string
+  filename: string
+  mimeType: string
+  size: number
+  encrypted?: boolean // Bytes and filename are vault ciphertext
+  data?: string // base64; left out when the exporter may not read attachments
+}
+
+export interface ExportedNote {
+  id: string
+  title: string
+  content: string
+  createdAt: string
+  updatedAt: string
+  tags: string[]
+  encrypted?: boolean // Title and content are vault ciphertext
+  attachments: ExportedAttachment[]
+}
+
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  username: string
+  notes: ExportedNote[]
+}
+
+interface ImportedAttachment {
+  filename: string
+  mimeType: string
+  data: Buffer
+}
+
+interface ImportedNote {
+  id?: string
+  title: string
+  content: string
+  tags: unknown // Checked when the note is imported
+  encrypted: boolean
+  attachments: ImportedAttachment[]
+}
+
+export type ImportNoteStatus = "new" | "imported" | "duplicate" | "invalid" | "over_quota"
+
+export interface ImportReportItem {
+  id?: string // The new note's ID, once imported
+  title: string
+  status: ImportNoteStatus
+  reason?: string
+  attachments: number
+  warnings: string[]
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  total: number
+  counts: Record<ImportNoteStatus, number>
+  notes: ImportReportItem[]
+}
+
+// Duplicates are spotted by note ID or by identical title and content
+function getContentHash(title: string, content: string): string {
+  return createHash("sha256").update(`${title.trim()}\n${content.trim()}`).digest("hex")
+}
+
+export async function buildExportBundle(
+  userId: string,
+  username: string,
+  includeAttachmentData: boolean,
+): Promise<ExportBundle> {
+  const entries = await getUserEntries(userId)
+
+  const notes = await Promise.all(
+    entries.map(async (entry): Promise<ExportedNote> => {
+      const attachments = await Promise.all(
+        (entry.attachments || []).map(async (attachment): Promise<ExportedAttachment> => {
+          const data = includeAttachmentData && attachment.hash ? await readBlobData(attachment.hash) : null
+          return {
+            id: attachment.id,
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            size: attachment.size,
+            ...(attachment.encrypted && { encrypted: true }),
+            data: data ? data.toString("base64") : undefined,
+          }
+        }),
+      )
+
+      return {
+        id: entry.id,
+        title: entry.title,
+        content: entry.content,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+        tags: entry.tags,
+        ...(entry.encrypted && { encrypted: true }),
+        attachments,
+      }
+    }),
+  )
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    username,
+    notes,
+  }
+}
+
+function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 50) || "note"
+  )
+}
+
+// Keep archive paths to a single safe segment
+function sanitizeFilename(filename: string): string {
+  return filename.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_").slice(0, 200) || "file"
+}
+
+/**
+ * Front-matter values are written as JSON, which is also valid YAML, so the
+ * files open cleanly in other Markdown tools and parse back exactly.
+ */
+function toMarkdown(note: ExportedNote, attachmentPaths: Map<string, string>): string {
+  const frontMatter: Record<string, unknown> = {
+    id: note.id,
+    title: note.title,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    tags: note.tags,
+    ...(note.encrypted && { encrypted: true }),
+    attachments: note.attachments.map((attachment) => ({
+      id: attachment.id,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      path: attachmentPaths.get(attachment.id),
+    })),
+  }
+
+  const header = Object.entries(frontMatter)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join("\n")
+
+  return `---\n${header}\n---\n\n${note.content}\n`
+}
+
+// A ZIP with manifest.json, one Markdown file per note under notes/ and the files under attachments/
+export function toZipExport(bundle: ExportBundle): Uint8Array {
+  const files: Zippable = {
+    "manifest.json": strToU8(
+      JSON.stringify(
+        {
+          format: bundle.format,
+          version: bundle.version,
+          exportedAt: bundle.exportedAt,
+          username: bundle.username,
+          noteCount: bundle.notes.length,
+        },
+        null,
+        2,
+      ),
+    ),
+  }
+
+  for (const note of bundle.notes) {
+    const attachmentPaths = new Map<string, string>()
+    for (const attachment of note.attachments) {
+      if (!attachment.data) {
+        continue
+      }
+      const filename = attachment.encrypted ? "encrypted.bin" : sanitizeFilename(attachment.filename)
+      const path = `attachments/${attachment.id}/${filename}`
+      attachmentPaths.set(attachment.id, path)
+      files[path] = Buffer.from(attachment.data, "base64")
+    }
+
+    files[`notes/${note.encrypted ? "encrypted" : slugify(note.title)}-${note.id}.md`] = strToU8(toMarkdown(note, attachmentPaths))
+  }
+
+  return zipSync(files)
+}
+
+function parseFrontMatter(markdown: string): { fields: Record<string, unknown>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(markdown)
+  if (!match) {
+    return { fields: {}, body: markdown }
+  }
+
+  const fields: Record<string, unknown> = {}
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(":")
+    if (separator <= 0) {
+      continue
+    }
+    const key = line.slice(0, separator).trim()
+    const raw = line.slice(separator + 1).trim()
+    try {
+      fields[key] = JSON.parse(raw)
+    } catch {
+      // Hand-written front-matter often leaves plain strings unquoted
+      fields[key] = raw
+    }
+  }
+
+  return { fields, body: match[2].replace(/^\r?\n/, "").replace(/\r?\n$/, "") }
+}
+
+function isNoteFile(path: string): boolean {
+  return path.endsWith(".md") && !path.startsWith("__MACOSX/")
+}
+
+/**
+ * Inflates only the entries `wanted` picks. The archive is refused before an
+ * entry is inflated if it is bigger than `maxEntrySize` or would take the total
+ * past the `budget` left; fflate never inflates an entry past the size it
+ * declares, so the declared sizes bound the memory used.
+ */
+function unzipWithinLimits(
+  data: Uint8Array,
+  wanted: (path: string) => boolean,
+  maxEntrySize: number,
+  budget: { bytes: number },
+): Unzipped {
+  let entries = 0
+  return unzipSync(data, {
+    filter: (file) => {
+      if (++entries > MAX_ZIP_ENTRIES) {
+        throw new Error(`ZIP has too many files (max ${MAX_ZIP_ENTRIES})`)
+      }
+      if (!wanted(file.name)) {
+        return false
+      }
+      if (file.originalSize > maxEntrySize) {
+        throw new Error(`${file.name} is too large (max ${Math.round(maxEntrySize / 1024)}KB)`)
+      }
+      budget.bytes -= file.originalSize
+      if (budget.bytes < 0) {
+        throw new Error(`ZIP unpacks to more than ${MAX_UNZIPPED_SIZE / (1024 * 1024)}MB`)
+      }
+      return true
+    },
+  })
+}
+
+// Notes and the manifest are unpacked first, then only the attachments they reference
+function parseZipImport(data: Buffer): ImportedNote[] {
+  const archive = new Uint8Array(data)
+  const budget = { bytes: MAX_UNZIPPED_SIZE }
+  const files = unzipWithinLimits(
+    archive,
+    (path) => path === "manifest.json" || isNoteFile(path),
+    MAX_ZIP_NOTE_SIZE,
+    budget,
+  )
+
+  const manifest = files["manifest.json"] ? JSON.parse(strFromU8(files["manifest.json"])) : null
+  if (manifest && (manifest.format !== EXPORT_FORMAT || manifest.version > EXPORT_VERSION)) {
+    throw new Error(`Unsupported export: ${manifest.format} version ${manifest.version}`)
+  }
+
+  const parsed = Object.keys(files)
+    .filter(isNoteFile)
+    .sort()
+    .map((path) => {
+      const { fields, body } = parseFrontMatter(strFromU8(files[path]))
+      const attachments = Array.isArray(fields.attachments)
+        ? fields.attachments.filter((attachment) => typeof attachment?.path === "string")
+        : []
+      return { path, fields, body, attachments }
+    })
+
+  const referenced = new Set(parsed.flatMap((note) => note.attachments.map((attachment) => attachment.path)))
+  const attachmentFiles = unzipWithinLimits(
+    archive,
+    (path) => referenced.has(path) && !isNoteFile(path),
+    Infinity,
+    budget,
+  )
+
+  return parsed.map(({ path, fields, body, attachments }) => {
+    const fallbackTitle = path.split("/").pop()!.replace(/\.md$/, "")
+
+    return {
+      id: typeof fields.id === "string" ? fields.id : undefined,
+      title: typeof fields.title === "string" ? fields.title : fallbackTitle,
+      content: body,
+      tags: fields.tags ?? [],
+      encrypted: fields.encrypted === true,
+      attachments: attachments
+        .filter((attachment) => attachmentFiles[attachment.path])
+        .map((attachment) => ({
+          filename: String(attachment.filename || attachment.path.split("/").pop()),
+          mimeType: String(attachment.mimeType || ""),
+          data: Buffer.from(attachmentFiles[attachment.path]),
+        })),
+    }
+  })
+}
+
+function parseJsonImport(data: Buffer): ImportedNote[] {
+  const bundle = JSON.parse(data.toString("utf8"))
+  if (bundle?.format !== EXPORT_FORMAT || !Array.isArray(bundle.notes)) {
+    throw new Error("Not a notes export file")
+  }
+  if (bundle.version > EXPORT_VERSION) {
+    throw new Error(`Export version ${bundle.version} is newer than this app supports`)
+  }
+
+  return bundle.notes.map((note: Partial<ExportedNote>) => ({
+    id: typeof note.id === "string" ? note.id : undefined,
+    title: String(note.title ?? ""),
+    content: String(note.content ?? ""),
+    tags: note.tags ?? [],
+    encrypted: note.encrypted === true,
+    attachments: (note.attachments || [])
+      .filter((attachment) => typeof attachment.data === "string")
+      .map((attachment) => ({
+        filename: String(attachment.filename || "file"),
+        mimeType: String(attachment.mimeType || ""),
+        data: Buffer.from(attachment.data!, "base64"),
+      })),
+  }))
+}
+
+/**
+ * Reads a JSON bundle or Markdown ZIP produced by the export. Throws with a
+ * user-facing message if the file isn't one.
+ */
+export function parseImportFile(data: Buffer): ImportedNote[] {
+  // ZIP files start with "PK"
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    return parseZipImport(data)
+  }
+
+  try {
+    return parseJsonImport(data)
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error("File is neither a JSON export nor a ZIP export")
+    }
+    throw error
+  }
+}
+
+function validateImportedNote(note: ImportedNote): string | null {
+  // Only the vault that wrote them can read these, and the server never holds its key
+  if (note.encrypted) {
+    return "Encrypted notes can't be imported"
+  }
+  if (!note.title.trim() || !note.content.trim()) {
+    return "Title and content are required"
+  }
+  if (note.title.length > MAX_TITLE_LENGTH) {
+    return `Title too long (max ${MAX_TITLE_LENGTH} characters)`
+  }
+  if (note.content.length > MAX_CONTENT_LENGTH) {
+    return `Content too long (max ${MAX_CONTENT_LENGTH} characters)`
+  }
+  return null
+}
+
+/**
+ * Imports parsed notes as new notes for the user, skipping any that duplicate
+ * an existing note (or an earlier one in the same file). With `dryRun` nothing
+ * is written and the report says what would happen, including which notes
+ * would not fit in the quota.
+ */
+export async function importNotes(
+  userId: string,
+  author: string,
+  quota: RoleQuota,
+  notes: ImportedNote[],
+  dryRun: boolean,
+): Promise<ImportReport> {
+  // Trashed notes count, so restoring from the trash stays possible without creating twins
+  const existing: TextEntry[] = [...(await getUserEntries(userId)), ...(await getTrashedEntries(userId))]
+  const seenIds = new Set(existing.map((entry) => entry.id))
+  const seenHashes = new Set(existing.map((entry) => getContentHash(entry.title, entry.content)))
+
+  const usage = await getStorageUsage(userId)
+  let noteCount = usage.notes
+  let attachmentBytes = usage.attachmentBytes + usage.pendingUploadBytes
+
+  const report: ImportReportItem[] = []
+
+  for (const note of notes) {
+    const item: ImportReportItem = {
+      title: note.encrypted ? "Encrypted note" : note.title,
+      status: "new",
+      attachments: 0,
+      warnings: [],
+    }
+    report.push(item)
+
+    const invalid = validateImportedNote(note)
+    if (invalid) {
+      item.status = "invalid"
+      item.reason = invalid
+      continue
+    }
+
+    const hash = getContentHash(note.title, note.content)
+    if ((note.id && seenIds.has(note.id)) || seenHashes.has(hash)) {
+      item.status = "duplicate"
+      item.reason = note.id && seenIds.has(note.id) ? "A note with this ID already exists" : "Same title and content"
+      continue
+    }
+    if (note.id) {
+      seenIds.add(note.id)
+    }
+    seenHashes.add(hash)
+
+    // Attachments go through the same type and size checks as regular uploads
+    const accepted: { filename: string; mimeType: string; data: Buffer }[] = []
+    for (const attachment of note.attachments) {
+      const mimeType = sniffMimeType(attachment.data.subarray(0, SNIFF_LENGTH), attachment.mimeType)
+      if (!isMimeTypeAllowed(mimeType)) {
+        item.warnings.push(`${attachment.filename} skipped: files of type ${mimeType} are not allowed`)
+      } else if (attachment.data.length > quota.maxFileSize) {
+        item.warnings.push(`${attachment.filename} skipped: file is too large`)
+      } else {
+        accepted.push({ ...attachment, mimeType })
+      }
+    }
+    item.attachments = accepted.length
+
+    const tags = parseTagList(note.tags)
+    if (typeof tags === "string") {
+      item.warnings.push(`Tags skipped: ${tags}`)
+    }
+
+    const noteBytes = accepted.reduce((sum, attachment) => sum + attachment.data.length, 0)
+    if (noteCount + 1 > quota.maxNotes || attachmentBytes + noteBytes > quota.maxStorageBytes) {
+      item.status = "over_quota"
+      item.reason = "Would exceed your note or storage quota"
+      continue
+    }
+    noteCount += 1
+    attachmentBytes += noteBytes
+
+    if (dryRun) {
+      continue
+    }
+
+    const uploads = []
+    for (const attachment of accepted) {
+      uploads.push(await createPendingUpload(userId, attachment.filename, attachment.mimeType, attachment.data))
+    }
+
+    const result = await createUserEntry(userId, note.title, note.content, uploads, {
+      author,
+      quota,
+      tags: typeof tags === "string" ? [] : tags,
+    })
+    if (result.status === "quota_exceeded") {
+      // The note was never saved, so nothing will claim its uploads
+      for (const upload of uploads) {
+        await releasePendingUpload(userId, upload.id)
+      }
+      item.status = "over_quota"
+      item.reason = result.violation.error
+      continue
+    }
+    item.status = "imported"
+    item.id = result.entry.id
+  }
+
+  const counts: Record<ImportNoteStatus, number> = { new: 0, imported: 0, duplicate: 0, invalid: 0, over_quota: 0 }
+  report.forEach((item) => counts[item.status]++)
+
+  return { dryRun, total: notes.length, counts, notes: report }
+}
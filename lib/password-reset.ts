@@ -0,0 +1,140 @@
+import { createHash, randomBytes } from "crypto"
+import { readValue, writeValue, deleteValue } from "./storage"
+import { getUserByEmail, getUserById, getUserByUsername, saveUser, type User } from "./users"
+import { hashPassword } from "./passwords"
+import { revokeAllUserSessions } from "./sessions"
+import { clearFailedLogins } from "./login-throttle"
+import { sendMail } from "./mail"
+
+const RESET_TOKEN_DURATION = 30 * 60 * 1000 // 30 minutes
+// Don't mail the same user more often than this
+const RESET_REQUEST_COOLDOWN = 60 * 1000 // 1 minute
+const DEV_APP_URL = "http://localhost:3000"
+
+interface PasswordResetRecord {
+  userId: string
+  expiresAt: number
+  createdAt: number
+}
+
+// Only the hash is stored, so a leaked database can't be used to reset passwords
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+function getResetKey(tokenHash: string): string {
+  return `password-reset:${tokenHash}`
+}
+
+// Each user has at most one live reset token; issuing a new one replaces it
+function getUserResetKey(userId: string): string {
+  return `user:${userId}:password-reset`
+}
+
+/**
+ * The site reset links point to, from APP_URL. Never derived from the
+ * request: its Host header is whatever the client sent, so links could be
+ * made to point elsewhere. Null in production when it isn't set.
+ */
+export function getAppUrl(): string | null {
+  const appUrl = process.env.APP_URL
+  if (!appUrl) {
+    return process.env.NODE_ENV === "production" ? null : DEV_APP_URL
+  }
+  return appUrl.replace(/\/$/, "")
+}
+
+async function findUserByIdentifier(identifier: string): Promise<User | null> {
+  return identifier.includes("@") ? getUserByEmail(identifier) : getUserByUsername(identifier)
+}
+
+async function issueResetToken(user: User): Promise<string | null> {
+  const previousHash = await readValue<string>(getUserResetKey(user.id))
+  if (previousHash) {
+    const previous = await readValue<PasswordResetRecord>(getResetKey(previousHash))
+    if (previous && Date.now() - previous.createdAt < RESET_REQUEST_COOLDOWN) {
+      return null
+    }
+    await deleteValue(getResetKey(previousHash))
+  }
+
+  const token = randomBytes(32).toString("base64url")
+  const tokenHash = hashResetToken(token)
+
+  await writeValue<PasswordResetRecord>(getResetKey(tokenHash), {
+    userId: user.id,
+    expiresAt: Date.now() + RESET_TOKEN_DURATION,
+    createdAt: Date.now(),
+  })
+  await writeValue(getUserResetKey(user.id), tokenHash)
+
+  return token
+}
+
+/**
+ * Mails a reset link if the username or email belongs to an active account
+ * with an address on file. Callers respond the same way either way, so the
+ * endpoint can't be used to discover accounts.
+ */
+export async function requestPasswordReset(identifier: string, appUrl: string): Promise<void> {
+  const user = await findUserByIdentifier(identifier.trim())
+  if (!user || user.disabled || !user.email) {
+    console.log(`🔑 Password reset requested for unknown or unreachable account: ${identifier}`)
+    return
+  }
+
+  const token = await issueResetToken(user)
+  if (!token) {
+    console.log(`🔑 Password reset for ${user.username} requested again too soon, skipping`)
+    return
+  }
+
+  const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Someone asked to reset the password for your Private Notes account. If that was you, open this link within 30 minutes:",
+      "",
+      link,
+      "",
+      "If you didn't ask for this, you can ignore this email - your password won't change.",
+    ].join("\n"),
+  })
+
+  console.log(`🔑 Password reset link issued for ${user.username}`)
+}
+
+/**
+ * Consumes a reset token and sets the new password. The token is deleted
+ * before anything else so it can only ever be used once, and all of the
+ * user's sessions are signed out afterwards.
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<User | null> {
+  const tokenHash = hashResetToken(token)
+  const record = await readValue<PasswordResetRecord>(getResetKey(tokenHash))
+  if (!record) {
+    return null
+  }
+
+  await deleteValue(getResetKey(tokenHash))
+  await deleteValue(getUserResetKey(record.userId))
+
+  if (record.expiresAt < Date.now()) {
+    return null
+  }
+
+  const user = await getUserById(record.userId)
+  if (!user || user.disabled) {
+    return null
+  }
+
+  user.passwordHash = await hashPassword(newPassword)
+  await saveUser(user)
+  await revokeAllUserSessions(user.id)
+  await clearFailedLogins(user.username)
+
+  return user
+}
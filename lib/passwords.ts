@@ -0,0 +1,66 @@
+import { randomBytes, scrypt, createHash, timingSafeEqual } from "crypto"
+
+// Stored hashes are self-describing: scrypt$<N>$<r>$<p>$<salt>$<hash>
+const HASH_ALGORITHM = "scrypt"
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 }
+const KEY_LENGTH = 64
+const SALT_LENGTH = 16
+
+export interface PasswordVerification {
+  valid: boolean
+  needsRehash: boolean
+}
+
+function deriveKey(password: string, salt: Buffer, params: typeof SCRYPT_PARAMS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, params, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH)
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS)
+  const { N, r, p } = SCRYPT_PARAMS
+
+  return [HASH_ALGORITHM, N, r, p, salt.toString("base64"), key.toString("base64")].join("$")
+}
+
+export function isHashedPassword(stored: string): boolean {
+  return stored.startsWith(`${HASH_ALGORITHM}$`)
+}
+
+/**
+ * Verifies a password against a stored value. Values without an algorithm
+ * prefix are legacy plaintext records; they still verify (in constant time) but
+ * are flagged for rehashing, as are hashes made with outdated parameters.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<PasswordVerification> {
+  if (!isHashedPassword(stored)) {
+    const digest = (value: string) => createHash("sha256").update(value).digest()
+    return { valid: safeEqual(digest(password), digest(stored)), needsRehash: true }
+  }
+
+  const [, n, r, p, salt, hash] = stored.split("$")
+  const params = { N: Number(n), r: Number(r), p: Number(p) }
+  if (!salt || !hash || !params.N || !params.r || !params.p) {
+    return { valid: false, needsRehash: false }
+  }
+
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), params)
+  const valid = safeEqual(key, Buffer.from(hash, "base64"))
+  const outdated = params.N !== SCRYPT_PARAMS.N || params.r !== SCRYPT_PARAMS.r || params.p !== SCRYPT_PARAMS.p
+
+  return { valid, needsRehash: valid && outdated }
+}
+
+// Burns roughly the same time as a real check so unknown usernames aren't revealed by timing
+export async function simulatePasswordCheck(password: string): Promise<void> {
+  await deriveKey(password, randomBytes(SALT_LENGTH), SCRYPT_PARAMS)
+}
@@ -0,0 +1,64 @@
+import { getStorageBackend } from "./storage-backend"
+import { needsResealing, openValue, sealValue, type SealedValue } from "./storage-encryption"
+import type { NoteRevision, TextEntry } from "./types"
+
+// Older revisions are dropped once a note has more than this many
+export const MAX_REVISIONS_PER_NOTE = Number(process.env.NOTE_REVISION_LIMIT || 50)
+
+function getRevisionsKey(userId: string, noteId: string): string {
+  return `note:${userId}:${noteId}:revisions`
+}
+
+function toRevision(entry: TextEntry, author?: string): NoteRevision {
+  return {
+    version: entry.version,
+    title: entry.title,
+    content: entry.content,
+    attachmentIds: (entry.attachments || []).map((attachment) => attachment.id),
+    author,
+    createdAt: entry.updatedAt,
+  }
+}
+
+// A note's revisions, newest first
+export async function getRevisions(userId: string, noteId: string): Promise<NoteRevision[]> {
+  const stored = await getStorageBackend().get<NoteRevision[] | SealedValue>(getRevisionsKey(userId, noteId))
+  return (await openValue(stored)) || []
+}
+
+/**
+ * Appends the note's new state to its revision log. `previous` is the state
+ * it replaced; it is only recorded when the log is empty, so notes written
+ * before revisions existed still get their original text kept.
+ */
+export async function recordRevision(
+  userId: string,
+  entry: TextEntry,
+  author: string | undefined,
+  previous?: TextEntry,
+): Promise<void> {
+  const revisions = await getRevisions(userId, entry.id)
+  if (revisions.length === 0 && previous) {
+    revisions.push(toRevision(previous))
+  }
+
+  await getStorageBackend().set(
+    getRevisionsKey(userId, entry.id),
+    await sealValue([toRevision(entry, author), ...revisions].slice(0, MAX_REVISIONS_PER_NOTE)),
+  )
+}
+
+// Rewrite a note's revisions with the current storage data key; false if they were already up to date
+export async function reencryptRevisions(userId: string, noteId: string): Promise<boolean> {
+  const stored = await getStorageBackend().get<NoteRevision[] | SealedValue>(getRevisionsKey(userId, noteId))
+  if (!stored || !(await needsResealing(stored))) {
+    return false
+  }
+
+  await getStorageBackend().set(getRevisionsKey(userId, noteId), await sealValue(await openValue(stored)))
+  return true
+}
+
+export async function deleteRevisions(userId: string, noteId: string): Promise<void> {
+  await getStorageBackend().delete(getRevisionsKey(userId, noteId))
+}
@@ -0,0 +1,33 @@
+import type { NextResponse } from "next/server"
+
+// Kept free of Node-only imports so middleware.ts can use it on the Edge runtime
+export const SESSION_COOKIE = "session"
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: number): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(expiresAt),
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 0,
+  })
+}
+
+// Non-browser clients send "Authorization: Bearer <token>"; browsers send the cookie
+export function getBearerToken(headers: Headers): string | null {
+  const authorization = headers.get("authorization")
+  if (!authorization?.startsWith("Bearer ")) {
+    return null
+  }
+  return authorization.slice("Bearer ".length).trim() || null
+}
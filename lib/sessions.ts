@@ -0,0 +1,144 @@
+import { readValue, writeValue, deleteValue } from "./storage"
+
+// Only persist last-seen updates this often, so every request doesn't cost a write
+const LAST_SEEN_RESOLUTION = 60 * 1000 // 1 minute
+
+export interface SessionRecord {
+  id: string
+  userId: string
+  userAgent: string
+  ip: string
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: number
+  revokedAt?: string
+}
+
+export interface ClientInfo {
+  userAgent: string
+  ip: string
+}
+
+// Kept apart from the session record, so recording activity can never write over a revocation
+interface SessionActivity extends ClientInfo {
+  lastSeenAt: string
+}
+
+function getSessionKey(id: string): string {
+  return `session:${id}`
+}
+
+function getSessionActivityKey(id: string): string {
+  return `session:${id}:activity`
+}
+
+function getUserSessionsKey(userId: string): string {
+  return `user:${userId}:sessions`
+}
+
+/**
+ * Extract device details from request headers. Clients can put anything in
+ * X-Forwarded-For, so only the last hop is used: the address our own proxy
+ * saw. Without one, fall back to the platform-provided X-Real-IP.
+ */
+export function getClientInfo(headers: Headers): ClientInfo {
+  const forwardedFor = headers.get("x-forwarded-for")
+  return {
+    userAgent: headers.get("user-agent") || "Unknown device",
+    ip: forwardedFor?.split(",").pop()?.trim() || headers.get("x-real-ip")?.trim() || "unknown",
+  }
+}
+
+export function isSessionActive(record: SessionRecord): boolean {
+  return !record.revokedAt && record.expiresAt > Date.now()
+}
+
+export async function createSessionRecord(
+  userId: string,
+  client: ClientInfo,
+  expiresAt: number,
+): Promise<SessionRecord> {
+  const now = new Date().toISOString()
+  const record: SessionRecord = {
+    id: Date.now().toString(36) + Math.random().toString(36).substr(2, 12),
+    userId,
+    userAgent: client.userAgent,
+    ip: client.ip,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt,
+  }
+
+  await writeValue(getSessionKey(record.id), record)
+
+  const index = (await readValue<string[]>(getUserSessionsKey(userId))) || []
+  await writeValue(getUserSessionsKey(userId), [...index, record.id])
+
+  return record
+}
+
+export async function getSessionRecord(id: string): Promise<SessionRecord | null> {
+  const [record, activity] = await Promise.all([
+    readValue<SessionRecord>(getSessionKey(id)),
+    readValue<SessionActivity>(getSessionActivityKey(id)),
+  ])
+  return record && activity ? { ...record, ...activity } : record
+}
+
+// Record activity on a session, throttled to LAST_SEEN_RESOLUTION
+export async function touchSession(record: SessionRecord, client?: ClientInfo): Promise<void> {
+  if (Date.now() - new Date(record.lastSeenAt).getTime() < LAST_SEEN_RESOLUTION) {
+    return
+  }
+
+  await writeValue<SessionActivity>(getSessionActivityKey(record.id), {
+    lastSeenAt: new Date().toISOString(),
+    ip: client?.ip ?? record.ip,
+    userAgent: client?.userAgent ?? record.userAgent,
+  })
+}
+
+// List a user's active sessions, pruning expired and revoked ones from the index
+export async function listUserSessions(userId: string): Promise<SessionRecord[]> {
+  const index = (await readValue<string[]>(getUserSessionsKey(userId))) || []
+  const records = await Promise.all(index.map((id) => getSessionRecord(id)))
+
+  const active: SessionRecord[] = []
+  const stale: string[] = []
+  records.forEach((record, i) => {
+    if (record && record.userId === userId && isSessionActive(record)) {
+      active.push(record)
+    } else {
+      stale.push(index[i])
+    }
+  })
+
+  if (stale.length > 0) {
+    await writeValue(
+      getUserSessionsKey(userId),
+      active.map((record) => record.id),
+    )
+    await Promise.all(
+      stale.flatMap((id) => [deleteValue(getSessionKey(id)), deleteValue(getSessionActivityKey(id))]),
+    )
+  }
+
+  return active.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+}
+
+export async function revokeSession(id: string): Promise<boolean> {
+  const record = await readValue<SessionRecord>(getSessionKey(id))
+  if (!record || record.revokedAt) {
+    return false
+  }
+
+  await writeValue(getSessionKey(id), { ...record, revokedAt: new Date().toISOString() })
+  return true
+}
+
+// Revoke every active session for a user (optionally keeping one), returning how many were revoked
+export async function revokeAllUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const sessions = (await listUserSessions(userId)).filter((session) => session.id !== exceptSessionId)
+  await Promise.all(sessions.map((session) => revokeSession(session.id)))
+  return sessions.length
+}
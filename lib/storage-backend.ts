@@ -0,0 +1,200 @@
+import { randomBytes } from "crypto"
+import { promises as fs, constants as fsConstants } from "fs"
+import path from "path"
+import { kv } from "@vercel/kv"
+import type BetterSqlite3 from "better-sqlite3"
+
+/**
+ * A key-value store holding JSON-serialisable values. Everything persisted by
+ * the app (users, sessions, notes, ...) goes through one of these.
+ */
+export interface StorageBackend {
+  name: string
+  // Whether data is shared between server instances (and so survives redeploys)
+  isGlobal: boolean
+  get<T>(key: string): Promise<T | null>
+  set<T>(key: string, value: T): Promise<void>
+  delete(key: string): Promise<void>
+  // Throws if the backend can't currently be used
+  ping(): Promise<void>
+  /**
+   * Cross-instance locks, for backends shared between instances. `tryLock`
+   * takes `key` for `ttlMs` unless another holder has it, returning a token
+   * to `unlock` with, or null. Local backends leave these out: one process
+   * owns their data, so in-process locks are enough.
+   */
+  tryLock?(key: string, ttlMs: number): Promise<string | null>
+  unlock?(key: string, token: string): Promise<void>
+}
+
+export type StorageBackendName = "vercel-kv" | "file" | "sqlite" | "memory"
+
+const DATA_DIR = path.join(process.cwd(), "data")
+
+function createKvBackend(): StorageBackend {
+  return {
+    name: "vercel-kv",
+    isGlobal: true,
+    async get<T>(key: string) {
+      return (await kv.get<T>(key)) ?? null
+    },
+    async set<T>(key: string, value: T) {
+      await kv.set(key, value)
+    },
+    async delete(key: string) {
+      await kv.del(key)
+    },
+    async ping() {
+      await kv.ping()
+    },
+    async tryLock(key: string, ttlMs: number) {
+      const token = randomBytes(16).toString("hex")
+      return (await kv.set(key, token, { nx: true, px: ttlMs })) ? token : null
+    },
+    async unlock(key: string, token: string) {
+      // Only delete the lock if it is still ours, not one taken after ours expired
+      await kv.eval(
+        'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end',
+        [key],
+        [token],
+      )
+    },
+  }
+}
+
+// One JSON file per key, replaced atomically via rename so readers never see a partial write
+function createFileBackend(): StorageBackend {
+  const directory = process.env.STORAGE_DIR || path.join(DATA_DIR, "store")
+
+  const getFilePath = (key: string) => path.join(directory, `${encodeURIComponent(key)}.json`)
+
+  return {
+    name: "file",
+    isGlobal: false,
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(await fs.readFile(getFilePath(key), "utf8")) as T
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null
+        }
+        throw error
+      }
+    },
+    async set<T>(key: string, value: T) {
+      await fs.mkdir(directory, { recursive: true })
+      const file = getFilePath(key)
+      const tempFile = `${file}.${process.pid}.${Math.random().toString(36).substr(2, 6)}.tmp`
+      await fs.writeFile(tempFile, JSON.stringify(value))
+      await fs.rename(tempFile, file)
+    },
+    async delete(key: string) {
+      await fs.rm(getFilePath(key), { force: true })
+    },
+    async ping() {
+      await fs.mkdir(directory, { recursive: true })
+      await fs.access(directory, fsConstants.W_OK)
+    },
+  }
+}
+
+// The native module is only loaded when this backend is selected
+function createSqliteBackend(): StorageBackend {
+  const file = process.env.SQLITE_PATH || path.join(DATA_DIR, "notes.db")
+  let database: Promise<BetterSqlite3.Database> | null = null
+
+  const open = () => {
+    if (!database) {
+      database = (async () => {
+        const { default: Database } = await import("better-sqlite3")
+        await fs.mkdir(path.dirname(file), { recursive: true })
+        const db = new Database(file)
+        db.pragma("journal_mode = WAL")
+        db.exec(
+          "CREATE TABLE IF NOT EXISTS kv_store (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at INTEGER NOT NULL)",
+        )
+        return db
+      })().catch((error) => {
+        database = null
+        throw error
+      })
+    }
+    return database
+  }
+
+  return {
+    name: "sqlite",
+    isGlobal: false,
+    async get<T>(key: string) {
+      const db = await open()
+      const row = db.prepare("SELECT value FROM kv_store WHERE key = ?").get(key) as { value: string } | undefined
+      return row ? (JSON.parse(row.value) as T) : null
+    },
+    async set<T>(key: string, value: T) {
+      const db = await open()
+      db.prepare(
+        "INSERT INTO kv_store (key, value, updated_at) VALUES (?, ?, ?) " +
+          "ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at",
+      ).run(key, JSON.stringify(value), Date.now())
+    },
+    async delete(key: string) {
+      const db = await open()
+      db.prepare("DELETE FROM kv_store WHERE key = ?").run(key)
+    },
+    async ping() {
+      const db = await open()
+      db.prepare("SELECT 1").get()
+    },
+  }
+}
+
+// Process-local and lost on restart - for tests and throwaway instances
+function createMemoryBackend(): StorageBackend {
+  const values = new Map<string, string>()
+
+  return {
+    name: "memory",
+    isGlobal: false,
+    async get<T>(key: string) {
+      const value = values.get(key)
+      return value === undefined ? null : (JSON.parse(value) as T)
+    },
+    async set<T>(key: string, value: T) {
+      values.set(key, JSON.stringify(value))
+    },
+    async delete(key: string) {
+      values.delete(key)
+    },
+    async ping() {},
+  }
+}
+
+const BACKEND_FACTORIES: Record<StorageBackendName, () => StorageBackend> = {
+  "vercel-kv": createKvBackend,
+  file: createFileBackend,
+  sqlite: createSqliteBackend,
+  memory: createMemoryBackend,
+}
+
+let backend: StorageBackend | null = null
+
+/**
+ * STORAGE_BACKEND selects the adapter: "vercel-kv", "file", "sqlite" or
+ * "memory". Without it, Vercel KV is used when its credentials are present
+ * and the file store under data/ otherwise.
+ */
+export function getStorageBackend(): StorageBackend {
+  if (!backend) {
+    const configured = process.env.STORAGE_BACKEND || (process.env.KV_REST_API_URL ? "vercel-kv" : "file")
+    const factory = BACKEND_FACTORIES[configured as StorageBackendName]
+
+    if (!factory) {
+      throw new Error(`Unknown STORAGE_BACKEND "${configured}"`)
+    }
+
+    backend = factory()
+    console.log(`💾 Using ${backend.name} storage`)
+  }
+
+  return backend
+}
@@ -0,0 +1,244 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto"
+import { getStorageBackend } from "./storage-backend"
+
+/**
+ * Envelope encryption for values at rest. Each value is sealed with a random
+ * data key (AES-256-GCM); data keys are stored wrapped by a master key that
+ * only lives in the environment, so a copy of the storage alone is useless.
+ *
+ * - STORAGE_MASTER_KEY / STORAGE_MASTER_KEY_ID: the active master key, 32
+ *   bytes as base64 (e.g. `openssl rand -base64 32`). Without it values are
+ *   written in plaintext.
+ * - STORAGE_PREVIOUS_MASTER_KEYS: comma-separated "id:key" pairs that can
+ *   still unwrap data keys, until a re-encryption moves them to the active key
+ */
+
+const KEY_RING_KEY = "encryption:key-ring"
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+export interface SealedValue {
+  $sealed: 1
+  keyId: string // Data key the value was sealed with
+  data: string // base64 of IV, ciphertext and tag
+}
+
+interface DataKeyRecord {
+  id: string
+  masterKeyId: string // Master key that wrapped it
+  wrappedKey: string // base64 of IV, ciphertext and tag
+  createdAt: string
+}
+
+interface KeyRing {
+  currentKeyId: string
+  keys: DataKeyRecord[]
+}
+
+export interface EncryptionStatus {
+  enabled: boolean
+  masterKeyId?: string
+  currentDataKeyId?: string
+  dataKeys: { id: string; masterKeyId: string; createdAt: string }[]
+}
+
+interface MasterKey {
+  id: string
+  key: Buffer
+}
+
+function parseMasterKey(id: string, encoded: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), "base64")
+  if (key.length !== 32) {
+    throw new Error(`Storage master key "${id}" must be 32 bytes encoded as base64`)
+  }
+  return { id, key }
+}
+
+function getActiveMasterKey(): MasterKey | null {
+  const encoded = process.env.STORAGE_MASTER_KEY
+  return encoded ? parseMasterKey(process.env.STORAGE_MASTER_KEY_ID || "default", encoded) : null
+}
+
+function getMasterKeys(): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>()
+
+  const previous = process.env.STORAGE_PREVIOUS_MASTER_KEYS || ""
+  for (const pair of previous.split(",")) {
+    const separator = pair.indexOf(":")
+    if (separator <= 0) continue
+    const { id, key } = parseMasterKey(pair.slice(0, separator).trim(), pair.slice(separator + 1))
+    keys.set(id, key)
+  }
+
+  const active = getActiveMasterKey()
+  if (active) {
+    keys.set(active.id, active.key)
+  }
+
+  return keys
+}
+
+export function isStorageEncryptionEnabled(): boolean {
+  return getActiveMasterKey() !== null
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64")
+}
+
+function decrypt(key: Buffer, encoded: string): Buffer {
+  const data = Buffer.from(encoded, "base64")
+  const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_LENGTH))
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH))
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH, data.length - TAG_LENGTH)), decipher.final()])
+}
+
+// Unwrapped data keys by ID; a data key never changes once created, so this never goes stale
+const dataKeyCache = new Map<string, Buffer>()
+
+function unwrapDataKey(record: DataKeyRecord): Buffer {
+  const cached = dataKeyCache.get(record.id)
+  if (cached) {
+    return cached
+  }
+
+  const masterKey = getMasterKeys().get(record.masterKeyId)
+  if (!masterKey) {
+    throw new Error(`Master key "${record.masterKeyId}" for data key ${record.id} is not configured`)
+  }
+
+  const key = decrypt(masterKey, record.wrappedKey)
+  dataKeyCache.set(record.id, key)
+  return key
+}
+
+function createDataKey(masterKey: MasterKey): DataKeyRecord {
+  const key = randomBytes(32)
+  const record: DataKeyRecord = {
+    id: randomBytes(8).toString("hex"),
+    masterKeyId: masterKey.id,
+    wrappedKey: encrypt(masterKey.key, key),
+    createdAt: new Date().toISOString(),
+  }
+  dataKeyCache.set(record.id, key)
+  return record
+}
+
+async function readKeyRing(): Promise<KeyRing | null> {
+  return getStorageBackend().get<KeyRing>(KEY_RING_KEY)
+}
+
+// Serialise key ring changes in this process so two writers can't each create a key and lose one
+let keyRingLock: Promise<unknown> = Promise.resolve()
+
+function withKeyRingLock<T>(task: () => Promise<T>): Promise<T> {
+  const next = keyRingLock.catch(() => undefined).then(task)
+  keyRingLock = next
+  return next
+}
+
+// The ring is read on every write rather than cached, so a rotation on another instance takes effect everywhere
+async function getCurrentDataKey(masterKey: MasterKey): Promise<{ id: string; key: Buffer }> {
+  const ring =
+    (await readKeyRing()) ??
+    (await withKeyRingLock(async () => {
+      const existing = await readKeyRing()
+      if (existing) {
+        return existing
+      }
+      const record = createDataKey(masterKey)
+      const created: KeyRing = { currentKeyId: record.id, keys: [record] }
+      await getStorageBackend().set(KEY_RING_KEY, created)
+      console.log(`🔑 Created storage data key ${record.id}`)
+      return created
+    }))
+
+  const record = ring.keys.find((item) => item.id === ring.currentKeyId)
+  if (!record) {
+    throw new Error(`Current storage data key ${ring.currentKeyId} is missing from the key ring`)
+  }
+  return { id: record.id, key: unwrapDataKey(record) }
+}
+
+export function isSealedValue(value: unknown): value is SealedValue {
+  return (value as SealedValue)?.$sealed === 1 && typeof (value as SealedValue).keyId === "string"
+}
+
+// Seal a value for storage, or return it unchanged when no master key is configured
+export async function sealValue<T>(value: T): Promise<T | SealedValue> {
+  const masterKey = getActiveMasterKey()
+  if (!masterKey) {
+    return value
+  }
+
+  const { id, key } = await getCurrentDataKey(masterKey)
+  return { $sealed: 1, keyId: id, data: encrypt(key, Buffer.from(JSON.stringify(value))) }
+}
+
+// Open a stored value; values written before encryption was turned on are returned as they are
+export async function openValue<T>(stored: T | SealedValue | null): Promise<T | null> {
+  if (!isSealedValue(stored)) {
+    return stored
+  }
+
+  let key = dataKeyCache.get(stored.keyId)
+  if (!key) {
+    const record = (await readKeyRing())?.keys.find((item) => item.id === stored.keyId)
+    if (!record) {
+      throw new Error(`Storage data key ${stored.keyId} not found`)
+    }
+    key = unwrapDataKey(record)
+  }
+
+  return JSON.parse(decrypt(key, stored.data).toString("utf8")) as T
+}
+
+// Whether a stored value needs rewriting to be sealed with the current data key
+export async function needsResealing(stored: unknown): Promise<boolean> {
+  if (!isStorageEncryptionEnabled()) {
+    return false
+  }
+  const ring = await readKeyRing()
+  return !isSealedValue(stored) || stored.keyId !== ring?.currentKeyId
+}
+
+/**
+ * Starts a new data key wrapped by the active master key. Existing data keys
+ * are re-wrapped with it too, so previous master keys can be retired once this
+ * has run; values move to the new data key as they are re-encrypted. Old data
+ * keys stay in the ring, since values nobody has re-encrypted yet need them.
+ */
+export async function rotateDataKey(): Promise<string> {
+  const masterKey = getActiveMasterKey()
+  if (!masterKey) {
+    throw new Error("STORAGE_MASTER_KEY is not set")
+  }
+
+  return withKeyRingLock(async () => {
+    const ring = await readKeyRing()
+    const keys = (ring?.keys || []).map((record) => ({
+      ...record,
+      masterKeyId: masterKey.id,
+      wrappedKey: encrypt(masterKey.key, unwrapDataKey(record)),
+    }))
+    const record = createDataKey(masterKey)
+
+    await getStorageBackend().set<KeyRing>(KEY_RING_KEY, { currentKeyId: record.id, keys: [...keys, record] })
+    console.log(`🔑 Rotated storage data key to ${record.id} under master key ${masterKey.id}`)
+    return record.id
+  })
+}
+
+export async function getEncryptionStatus(): Promise<EncryptionStatus> {
+  const ring = await readKeyRing()
+  return {
+    enabled: isStorageEncryptionEnabled(),
+    masterKeyId: getActiveMasterKey()?.id,
+    currentDataKeyId: ring?.currentKeyId,
+    dataKeys: (ring?.keys || []).map(({ id, masterKeyId, createdAt }) => ({ id, masterKeyId, createdAt })),
+  }
+}
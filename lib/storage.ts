@@ -1,142 +1,825 @@
-import { kv } from "@vercel/kv"
+import { getStorageBackend } from "./storage-backend"
+import { reencryptBlob, releaseBlobReference, retainBlobReference } from "./blob-store"
+import { claimPendingUpload, getPendingUpload, getPendingUploadUsage, reencryptPendingUploads } from "./uploads"
+import { deleteRevisions, recordRevision, reencryptRevisions } from "./revisions"
+import { CURRENT_SCHEMA_VERSION, migrateEntry, needsMigration, storeAttachmentData } from "./migrations"
+import { needsResealing, openValue, sealValue, type SealedValue } from "./storage-encryption"
+import { recordAuditEvent } from "./audit-log"
+import type { FileAttachment, RoleQuota, StorageUsage, TextEntry } from "./types"
 
-export interface FileAttachment {
-  id: string
-  filename: string
-  mimeType: string
-  size: number
-  data: string // base64 encoded file data
-  uploadedAt: string
+// Read a value by key from the configured storage backend
+export async function readValue<T>(key: string): Promise<T | null> {
+  return getStorageBackend().get<T>(key)
+}
+
+// Write a value by key to the configured storage backend
+export async function writeValue<T>(key: string, value: T): Promise<void> {
+  await getStorageBackend().set(key, value)
 }
 
-export interface TextEntry {
+// Delete a value by key from the configured storage backend
+export async function deleteValue(key: string): Promise<void> {
+  await getStorageBackend().delete(key)
+}
+
+export interface NoteIndexEntry {
   id: string
-  title: string
-  content: string
   createdAt: string
   updatedAt: string
-  userId: string
-  attachments?: FileAttachment[]
+  // Total size of the note's attachments, so usage adds up from the index alone. Missing on older entries
+  attachmentBytes?: number
+}
+
+export interface TrashIndexEntry extends NoteIndexEntry {
+  deletedAt: string
 }
 
-// In-memory storage as fallback
-const memoryStorage = new Map<string, TextEntry[]>()
+// How long trashed notes are kept before they're purged for good
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS || 30)
 
-// Get user-specific storage key
-function getUserStorageKey(userId: string): string {
+// Notes written before per-note keys existed, as one array per user
+function getLegacyNotesKey(userId: string): string {
   return `user:${userId}:notes`
 }
 
-// Get entries for a specific user
-export async function getUserEntries(userId: string): Promise<TextEntry[]> {
-  const storageKey = getUserStorageKey(userId)
+function getNoteKey(userId: string, id: string): string {
+  return `note:${userId}:${id}`
+}
+
+// Newest first, so listing doesn't need to load notes to sort them
+function getNoteIndexKey(userId: string): string {
+  return `user:${userId}:note-index`
+}
+
+// Trashed notes, most recently deleted first
+function getTrashIndexKey(userId: string): string {
+  return `user:${userId}:trash-index`
+}
+
+function getAttachmentBytes(entry: TextEntry | null): number {
+  return (entry?.attachments || []).reduce((sum, attachment) => sum + attachment.size, 0)
+}
+
+function toIndexEntry(entry: TextEntry): NoteIndexEntry {
+  return {
+    id: entry.id,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    attachmentBytes: getAttachmentBytes(entry),
+  }
+}
+
+// Notes are sealed at rest when a storage master key is configured; see lib/storage-encryption.ts
+async function readNote(userId: string, id: string): Promise<TextEntry | null> {
+  return openValue(await readValue<TextEntry | SealedValue>(getNoteKey(userId, id)))
+}
+
+async function writeNote(userId: string, entry: TextEntry): Promise<void> {
+  await writeValue(getNoteKey(userId, entry.id), await sealValue(entry))
+}
+
+/**
+ * Works out a note's attachments after an edit. Clients only send IDs: each
+ * must either already be on the note or be one of the user's pending uploads,
+ * and the server's metadata is used so nothing about a file can be forged.
+ * Blobs of attachments that were removed are released.
+ */
+async function resolveAttachments(
+  userId: string,
+  incoming: { id: string }[],
+  existing: FileAttachment[],
+): Promise<FileAttachment[]> {
+  const attachments: FileAttachment[] = []
+  const kept = new Set<string>()
+
+  for (const { id } of incoming) {
+    if (kept.has(id)) {
+      continue
+    }
+
+    const stored = existing.find((item) => item.id === id) ?? (await claimPendingUpload(userId, id))
+    if (stored) {
+      attachments.push(stored)
+      kept.add(id)
+    }
+  }
+
+  await releaseAttachments(existing.filter((attachment) => !kept.has(attachment.id)))
+  return attachments
+}
+
+async function releaseAttachments(attachments: FileAttachment[] | undefined): Promise<void> {
+  for (const attachment of attachments || []) {
+    if (attachment.hash) {
+      await releaseBlobReference(attachment.hash)
+    }
+  }
+}
+
+// A backend lock is held at most this long, so a crashed instance can't block a user for good
+const BACKEND_LOCK_TTL = 30 * 1000 // 30 seconds
+const BACKEND_LOCK_RETRY_DELAY = 50
+
+/**
+ * Runs `task` holding the backend's lock on `key`, for backends shared between
+ * instances; on local backends it just runs it. Waits out a lock left behind by
+ * a crashed holder, then gives up.
+ */
+async function withBackendLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const backend = getStorageBackend()
+  if (!backend.tryLock || !backend.unlock) {
+    return task()
+  }
+
+  const deadline = Date.now() + BACKEND_LOCK_TTL
+  let token = await backend.tryLock(key, BACKEND_LOCK_TTL)
+  while (!token) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${key}`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, BACKEND_LOCK_RETRY_DELAY))
+    token = await backend.tryLock(key, BACKEND_LOCK_TTL)
+  }
 
   try {
-    // Try Vercel KV first
-    const kvEntries = await kv.get<TextEntry[]>(storageKey)
-    if (kvEntries) {
-      return kvEntries.filter((entry) => entry.userId === userId) // Double-check user isolation
+    return await task()
+  } finally {
+    await backend.unlock(key, token)
+  }
+}
+
+/**
+ * Serialise index updates per user so concurrent writes don't drop entries.
+ * Requests in this process queue up here; on shared backends they then take
+ * the backend lock, which also keeps out other instances.
+ */
+const indexLocks = new Map<string, Promise<unknown>>()
+
+function withIndexLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = indexLocks.get(userId) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(() => withBackendLock(`lock:user:${userId}:note-index`, task))
+  indexLocks.set(userId, next)
+  next
+    .finally(() => {
+      if (indexLocks.get(userId) === next) {
+        indexLocks.delete(userId)
+      }
+    })
+    .catch(() => undefined)
+  return next
+}
+
+// Move a legacy notes array to per-note keys the first time the user's notes are read
+async function migrateLegacyNotes(userId: string): Promise<NoteIndexEntry[]> {
+  const legacy = await readValue<TextEntry[]>(getLegacyNotesKey(userId))
+  if (!legacy) {
+    return []
+  }
+
+  const entries = legacy.filter((entry) => entry.userId === userId)
+  await Promise.all(entries.map((entry) => writeNote(userId, entry)))
+
+  const index = entries.map(toIndexEntry)
+  await writeValue(getNoteIndexKey(userId), index)
+  await deleteValue(getLegacyNotesKey(userId))
+
+  console.log(`📦 Migrated ${entries.length} notes for user ${userId} to per-note keys`)
+  return index
+}
+
+// Bring a stored note up to the current schema and write it back. Callers must hold the index lock
+async function migrateStoredEntry(userId: string, stored: TextEntry): Promise<TextEntry> {
+  const migrated = await migrateEntry(stored)
+  await writeNote(userId, migrated)
+
+  console.log(
+    `📦 Migrated entry ${stored.id} of user ${userId} from schema version ${stored.schemaVersion || 0} to ${migrated.schemaVersion}`,
+  )
+  return migrated
+}
+
+// Notes are migrated lazily the first time they're read after a schema change
+async function upgradeEntry(userId: string, entry: TextEntry): Promise<TextEntry> {
+  if (!needsMigration(entry)) {
+    return entry
+  }
+
+  return withIndexLock(userId, async () => {
+    // Another request may have migrated or removed it while we waited for the lock
+    const stored = await readNote(userId, entry.id)
+    if (!stored || !needsMigration(stored)) {
+      return stored ?? entry
     }
-  } catch (error) {
-    console.log("KV not available, using memory storage")
+    return migrateStoredEntry(userId, stored)
+  })
+}
+
+// Callers must hold the index lock
+async function loadNoteIndex(userId: string): Promise<NoteIndexEntry[]> {
+  const index = await readValue<NoteIndexEntry[]>(getNoteIndexKey(userId))
+  return index ?? migrateLegacyNotes(userId)
+}
+
+export async function getNoteIndex(userId: string): Promise<NoteIndexEntry[]> {
+  const index = await readValue<NoteIndexEntry[]>(getNoteIndexKey(userId))
+  return index ?? withIndexLock(userId, () => loadNoteIndex(userId))
+}
+
+// Get entries for a specific user
+export async function getUserEntries(userId: string): Promise<TextEntry[]> {
+  const index = await getNoteIndex(userId)
+  const entries = await Promise.all(
+    index.map(async ({ id }) => {
+      const entry = await readNote(userId, id)
+      return entry && entry.userId === userId ? upgradeEntry(userId, entry) : null // Double-check user isolation
+    }),
+  )
+  return entries.filter((entry): entry is TextEntry => entry !== null)
+}
+
+// Get a single entry, or null if it doesn't exist, is in the trash or belongs to someone else
+export async function getUserEntry(userId: string, id: string): Promise<TextEntry | null> {
+  let entry = await readNote(userId, id)
+  if (!entry) {
+    // The note may still be in a legacy array that hasn't been migrated yet
+    await getNoteIndex(userId)
+    entry = await readNote(userId, id)
+  }
+  if (!entry || entry.userId !== userId || entry.deletedAt) {
+    return null
+  }
+  return upgradeEntry(userId, entry)
+}
+
+/**
+ * Find one of the user's attachments by ID. With the `noteId` it belongs to
+ * only that note is read; without it every note is searched.
+ */
+export async function getUserAttachment(
+  userId: string,
+  attachmentId: string,
+  noteId?: string,
+): Promise<FileAttachment | null> {
+  if (noteId) {
+    const entry = await getUserEntry(userId, noteId)
+    return entry?.attachments?.find((item) => item.id === attachmentId) ?? null
   }
 
-  // Fallback to memory storage
-  return memoryStorage.get(storageKey) || []
+  const entries = await getUserEntries(userId)
+  for (const entry of entries) {
+    const attachment = entry.attachments?.find((item) => item.id === attachmentId)
+    if (attachment) {
+      return attachment
+    }
+  }
+  return null
 }
 
-// Save entries for a specific user
+// Replace all of a user's entries at once
 export async function saveUserEntries(userId: string, entries: TextEntry[]): Promise<void> {
-  const storageKey = getUserStorageKey(userId)
-
   // Ensure all entries belong to this user
   const userEntries = entries.filter((entry) => entry.userId === userId)
 
-  try {
-    // Try Vercel KV first
-    await kv.set(storageKey, userEntries)
-  } catch (error) {
-    console.log("KV not available, using memory storage")
-    // Fallback to memory storage
-    memoryStorage.set(storageKey, userEntries)
+  await withIndexLock(userId, async () => {
+    // The trash is replaced too, so trashed notes count as previous entries
+    const previousIndex = [
+      ...((await readValue<NoteIndexEntry[]>(getNoteIndexKey(userId))) || []),
+      ...((await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []),
+    ]
+    const previous = await Promise.all(previousIndex.map(({ id }) => readNote(userId, id)))
+    const keep = new Set(userEntries.map((entry) => entry.id))
+
+    // Take references for the new set before releasing the old one, so shared blobs survive
+    for (const entry of userEntries) {
+      const attachments: FileAttachment[] = []
+      for (const attachment of entry.attachments || []) {
+        if (attachment.data) {
+          attachments.push(await storeAttachmentData(attachment))
+        } else if (attachment.hash && (await retainBlobReference(attachment.hash))) {
+          attachments.push(attachment)
+        }
+      }
+      entry.attachments = attachments
+    }
+
+    await Promise.all(
+      userEntries.map((entry) =>
+        writeNote(userId, { ...entry, schemaVersion: CURRENT_SCHEMA_VERSION }),
+      ),
+    )
+    await writeValue(getNoteIndexKey(userId), userEntries.map(toIndexEntry))
+    await Promise.all(
+      previousIndex.filter(({ id }) => !keep.has(id)).map(({ id }) => deleteValue(getNoteKey(userId, id))),
+    )
+    for (const entry of previous) {
+      await releaseAttachments(entry?.attachments)
+    }
+    // Histories belong to the replaced notes, even where an ID is reused
+    await Promise.all(previousIndex.map(({ id }) => deleteRevisions(userId, id)))
+    await deleteValue(getTrashIndexKey(userId))
+    await deleteValue(getLegacyNotesKey(userId))
+  })
+}
+
+export interface QuotaViolation {
+  error: string
+  status: 403 | 413
+}
+
+export interface EntryWriteOptions {
+  author?: string // Recorded in the note's revision history
+  quota?: RoleQuota // Checked before anything is written
+  encrypted?: boolean // New notes only; a note can't change between plaintext and vault ciphertext
+  tags?: string[] // Already normalized; left as they are on update when omitted
+}
+
+function hasAttachmentBytes(entries: NoteIndexEntry[]): boolean {
+  return entries.every((entry) => entry.attachmentBytes !== undefined)
+}
+
+async function toStorageUsage(userId: string, index: NoteIndexEntry[], trash: TrashIndexEntry[]): Promise<StorageUsage> {
+  const pending = await getPendingUploadUsage(userId)
+
+  return {
+    notes: index.length + trash.length,
+    attachmentBytes: [...index, ...trash].reduce((total, entry) => total + (entry.attachmentBytes ?? 0), 0),
+    pendingUploads: pending.count,
+    pendingUploadBytes: pending.bytes,
   }
 }
 
+// Index entries written before attachment sizes were kept there get them from their notes, once
+async function fillAttachmentBytes<T extends NoteIndexEntry>(userId: string, key: string, entries: T[]): Promise<T[]> {
+  if (hasAttachmentBytes(entries)) {
+    return entries
+  }
+
+  const filled = await Promise.all(
+    entries.map(async (entry) =>
+      entry.attachmentBytes !== undefined
+        ? entry
+        : { ...entry, attachmentBytes: getAttachmentBytes(await readNote(userId, entry.id)) },
+    ),
+  )
+  await writeValue(key, filled)
+  return filled
+}
+
+// Callers must hold the index lock
+async function loadStorageUsage(userId: string): Promise<StorageUsage> {
+  const index = await fillAttachmentBytes(userId, getNoteIndexKey(userId), await loadNoteIndex(userId))
+  const trash = await fillAttachmentBytes(
+    userId,
+    getTrashIndexKey(userId),
+    (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || [],
+  )
+  return toStorageUsage(userId, index, trash)
+}
+
+/**
+ * Notes and attachment bytes the user is storing, including the trash and
+ * uploads not attached yet. Only the indexes are read; the lock is only taken
+ * when older index entries still need their attachment sizes filled in.
+ */
+export async function getStorageUsage(userId: string): Promise<StorageUsage> {
+  const index = await readValue<NoteIndexEntry[]>(getNoteIndexKey(userId))
+  const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+  if (index && hasAttachmentBytes(index) && hasAttachmentBytes(trash)) {
+    return toStorageUsage(userId, index, trash)
+  }
+  return withIndexLock(userId, () => loadStorageUsage(userId))
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)}KB` : `${Math.round(bytes / (1024 * 1024))}MB`
+}
+
+/**
+ * Checks a write against the user's quota before any uploads are claimed.
+ * `existing` are the attachments the note has now, which the write replaces.
+ * Pending uploads already reserved their space when they were uploaded, so
+ * only bytes on notes are counted here. Callers must hold the index lock.
+ */
+async function checkQuota(
+  userId: string,
+  quota: RoleQuota,
+  incoming: { id: string }[],
+  existing: FileAttachment[],
+  isNewNote: boolean,
+): Promise<QuotaViolation | null> {
+  const usage = await loadStorageUsage(userId)
+
+  if (isNewNote && usage.notes >= quota.maxNotes) {
+    return { error: `Note limit reached (max ${quota.maxNotes} notes, including the trash)`, status: 403 }
+  }
+
+  let noteBytes = 0
+  for (const { id } of incoming) {
+    const attachment = existing.find((item) => item.id === id) ?? (await getPendingUpload(userId, id))
+    if (!attachment) {
+      continue
+    }
+    if (attachment.size > quota.maxFileSize) {
+      return {
+        error: `File ${attachment.filename} is too large (max ${formatBytes(quota.maxFileSize)})`,
+        status: 413,
+      }
+    }
+    noteBytes += attachment.size
+  }
+
+  const existingBytes = existing.reduce((sum, attachment) => sum + attachment.size, 0)
+  if (noteBytes > existingBytes && usage.attachmentBytes - existingBytes + noteBytes > quota.maxStorageBytes) {
+    return {
+      error: `Storage quota exceeded (${formatBytes(usage.attachmentBytes)} of ${formatBytes(quota.maxStorageBytes)} used)`,
+      status: 413,
+    }
+  }
+
+  return null
+}
+
+export type CreateEntryResult =
+  | { status: "created"; entry: TextEntry }
+  | { status: "quota_exceeded"; violation: QuotaViolation }
+
 // Create a new entry for a user
 export async function createUserEntry(
   userId: string,
   title: string,
   content: string,
-  attachments?: FileAttachment[],
-): Promise<TextEntry> {
-  const entries = await getUserEntries(userId)
+  attachments?: { id: string }[],
+  options: EntryWriteOptions = {},
+): Promise<CreateEntryResult> {
+  // Make sure legacy notes are migrated before taking the lock
+  await getNoteIndex(userId)
 
-  const newEntry: TextEntry = {
-    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-    title: title.trim(),
-    content: content.trim(),
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    userId: userId,
-    attachments: attachments || [],
-  }
+  return withIndexLock(userId, async () => {
+    if (options.quota) {
+      const violation = await checkQuota(userId, options.quota, attachments || [], [], true)
+      if (violation) {
+        return { status: "quota_exceeded", violation }
+      }
+    }
 
-  const updatedEntries = [newEntry, ...entries]
-  await saveUserEntries(userId, updatedEntries)
+    const newEntry: TextEntry = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      title: title.trim(),
+      content: content.trim(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      userId: userId,
+      // A new note has nothing to keep, so only pending uploads count
+      attachments: await resolveAttachments(userId, attachments || [], []),
+      tags: options.tags || [],
+      version: 1,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      ...(options.encrypted && { encrypted: true }),
+    }
+
+    await writeNote(userId, newEntry)
+    const index = await loadNoteIndex(userId)
+    await writeValue(getNoteIndexKey(userId), [toIndexEntry(newEntry), ...index])
+    await recordRevision(userId, newEntry, options.author)
 
-  return newEntry
+    return { status: "created", entry: newEntry }
+  })
 }
 
-// Update an entry for a user
+export type UpdateEntryResult =
+  | { status: "updated"; entry: TextEntry }
+  | { status: "not_found" }
+  | { status: "conflict"; current: TextEntry }
+  | { status: "quota_exceeded"; violation: QuotaViolation }
+
+/**
+ * Update an entry for a user. `expectedVersion` must match the stored version,
+ * otherwise the current copy is returned so the caller can resolve the conflict.
+ * Every successful update is added to the note's revision history.
+ */
 export async function updateUserEntry(
   userId: string,
   id: string,
+  expectedVersion: number,
   title: string,
   content: string,
-  attachments?: FileAttachment[],
-): Promise<TextEntry | null> {
-  const entries = await getUserEntries(userId)
-  const entryIndex = entries.findIndex((entry) => entry.id === id && entry.userId === userId)
+  attachments?: { id: string }[],
+  options: EntryWriteOptions = {},
+): Promise<UpdateEntryResult> {
+  // Make sure legacy notes and older records are migrated before taking the lock
+  await getUserEntry(userId, id)
 
-  if (entryIndex === -1) {
-    return null
-  }
+  // Hold the lock across the version check and the write so they can't interleave
+  return withIndexLock(userId, async () => {
+    const stored = await readNote(userId, id)
+
+    if (!stored || stored.userId !== userId || stored.deletedAt) {
+      return { status: "not_found" }
+    }
+
+    const existing = needsMigration(stored) ? await migrateEntry(stored) : stored
+    if (expectedVersion !== existing.version) {
+      return { status: "conflict", current: existing }
+    }
+
+    if (options.quota && attachments !== undefined) {
+      const violation = await checkQuota(userId, options.quota, attachments, existing.attachments || [], false)
+      if (violation) {
+        return { status: "quota_exceeded", violation }
+      }
+    }
+
+    const updatedEntry: TextEntry = {
+      ...existing,
+      title: title.trim(),
+      content: content.trim(),
+      updatedAt: new Date().toISOString(),
+      attachments:
+        attachments !== undefined
+          ? await resolveAttachments(userId, attachments, existing.attachments || [])
+          : existing.attachments,
+      tags: options.tags ?? existing.tags,
+      version: existing.version + 1,
+    }
+
+    await writeNote(userId, updatedEntry)
+    await recordRevision(userId, updatedEntry, options.author, existing)
+    const index = await loadNoteIndex(userId)
+    await writeValue(
+      getNoteIndexKey(userId),
+      index.map((item) => (item.id === id ? toIndexEntry(updatedEntry) : item)),
+    )
+
+    return { status: "updated", entry: updatedEntry }
+  })
+}
+
+/**
+ * Replaces the `from` tags with `to` on every one of the user's notes,
+ * including the trash; renaming and merging tags are both this. Each changed
+ * note gets a new version, so an editor opened before the change gets a
+ * conflict instead of saving the old tags back. Returns each changed note as
+ * it was before and after.
+ */
+export async function replaceUserTags(
+  userId: string,
+  from: string[],
+  to: string,
+  author?: string,
+): Promise<{ before: TextEntry; after: TextEntry }[]> {
+  await getNoteIndex(userId)
+
+  return withIndexLock(userId, async () => {
+    const index = await loadNoteIndex(userId)
+    const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+    const changed: { before: TextEntry; after: TextEntry }[] = []
+
+    for (const { id } of [...index, ...trash]) {
+      const stored = await readNote(userId, id)
+      if (!stored || stored.userId !== userId) {
+        continue
+      }
 
-  const updatedEntry: TextEntry = {
-    ...entries[entryIndex],
-    title: title.trim(),
-    content: content.trim(),
-    updatedAt: new Date().toISOString(),
-    attachments: attachments !== undefined ? attachments : entries[entryIndex].attachments,
+      const entry = needsMigration(stored) ? await migrateStoredEntry(userId, stored) : stored
+      if (!entry.tags.some((tag) => from.includes(tag))) {
+        continue
+      }
+
+      const updated: TextEntry = {
+        ...entry,
+        tags: [...new Set(entry.tags.map((tag) => (from.includes(tag) ? to : tag)))],
+        updatedAt: new Date().toISOString(),
+        version: entry.version + 1,
+      }
+      await writeNote(userId, updated)
+      await recordRevision(userId, updated, author, entry)
+      changed.push({ before: entry, after: updated })
+    }
+
+    if (changed.length > 0) {
+      const updatedAt = new Map(changed.map(({ after }) => [after.id, after.updatedAt]))
+      await writeValue(
+        getNoteIndexKey(userId),
+        index.map((item) => (updatedAt.has(item.id) ? { ...item, updatedAt: updatedAt.get(item.id)! } : item)),
+      )
+      await writeValue(
+        getTrashIndexKey(userId),
+        trash.map((item) => (updatedAt.has(item.id) ? { ...item, updatedAt: updatedAt.get(item.id)! } : item)),
+      )
+    }
+
+    return changed
+  })
+}
+
+// Move an entry to the trash; it can be restored until it is purged. Returns the entry as it was, or null
+export async function trashUserEntry(userId: string, id: string): Promise<TextEntry | null> {
+  // Make sure legacy notes are migrated before taking the lock
+  await getNoteIndex(userId)
+
+  return withIndexLock(userId, async () => {
+    const stored = await readNote(userId, id)
+
+    if (!stored || stored.userId !== userId || stored.deletedAt) {
+      return null // Entry not found, already trashed or doesn't belong to user
+    }
+
+    const deletedAt = new Date().toISOString()
+    await writeNote(userId, { ...stored, deletedAt })
+
+    const index = await loadNoteIndex(userId)
+    await writeValue(
+      getNoteIndexKey(userId),
+      index.filter((item) => item.id !== id),
+    )
+    const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+    await writeValue(getTrashIndexKey(userId), [{ ...toIndexEntry(stored), deletedAt }, ...trash])
+
+    return stored
+  })
+}
+
+// Take an entry back out of the trash, returning it to its place in the list
+export async function restoreUserEntry(userId: string, id: string): Promise<TextEntry | null> {
+  return withIndexLock(userId, async () => {
+    const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+    const stored = await readNote(userId, id)
+
+    if (!stored || stored.userId !== userId || !stored.deletedAt) {
+      return null
+    }
+
+    const { deletedAt, ...rest } = stored
+    const restored = needsMigration(rest) ? await migrateEntry(rest) : rest
+    await writeNote(userId, restored)
+
+    await writeValue(
+      getTrashIndexKey(userId),
+      trash.filter((item) => item.id !== id),
+    )
+    // The index is ordered by creation, newest first
+    const index = await loadNoteIndex(userId)
+    await writeValue(
+      getNoteIndexKey(userId),
+      [...index, toIndexEntry(restored)].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    )
+
+    return restored
+  })
+}
+
+// Permanently remove trashed entries, releasing their attachments. Returns the entries that were removed
+async function purgeTrashedEntries(userId: string, ids: string[]): Promise<TextEntry[]> {
+  if (ids.length === 0) {
+    return []
   }
 
-  entries[entryIndex] = updatedEntry
-  await saveUserEntries(userId, entries)
+  return withIndexLock(userId, async () => {
+    const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+    const purge = new Set(ids.filter((id) => trash.some((item) => item.id === id)))
+    const purged: TextEntry[] = []
+
+    for (const id of purge) {
+      const stored = await readNote(userId, id)
+      await deleteValue(getNoteKey(userId, id))
+      await deleteRevisions(userId, id)
+      await releaseAttachments(stored?.attachments)
+      if (stored) {
+        purged.push(stored)
+      }
+    }
 
-  return updatedEntry
+    await writeValue(
+      getTrashIndexKey(userId),
+      trash.filter((item) => !purge.has(item.id)),
+    )
+
+    return purged
+  })
 }
 
-// Delete an entry for a user
-export async function deleteUserEntry(userId: string, id: string): Promise<boolean> {
-  const entries = await getUserEntries(userId)
-  const entryIndex = entries.findIndex((entry) => entry.id === id && entry.userId === userId)
+// Remove trashed entries older than the retention period
+export async function purgeExpiredTrash(userId: string): Promise<number> {
+  const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+  const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  const expired = trash.filter((item) => new Date(item.deletedAt).getTime() < cutoff).map((item) => item.id)
 
-  if (entryIndex === -1) {
-    return false // Entry not found or doesn't belong to user
+  const purged = await purgeTrashedEntries(userId, expired)
+  if (purged.length > 0) {
+    console.log(`🗑️ Purged ${purged.length} expired notes from the trash of user ${userId}`)
+  }
+  for (const entry of purged) {
+    await recordAuditEvent({
+      action: "note.purge",
+      userId,
+      noteId: entry.id,
+      before: entry,
+      details: `Expired after ${TRASH_RETENTION_DAYS} days in the trash`,
+    })
   }
+  return purged.length
+}
+
+// Get the user's trashed entries, most recently deleted first
+export async function getTrashedEntries(userId: string): Promise<TextEntry[]> {
+  await purgeExpiredTrash(userId)
+
+  const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+  const entries = await Promise.all(
+    trash.map(async ({ id }) => {
+      const entry = await readNote(userId, id)
+      return entry && entry.userId === userId && entry.deletedAt ? upgradeEntry(userId, entry) : null
+    }),
+  )
+  return entries.filter((entry): entry is TextEntry => entry !== null)
+}
 
-  entries.splice(entryIndex, 1)
-  await saveUserEntries(userId, entries)
+// Permanently delete one trashed entry, returning it as it was
+export async function purgeUserEntry(userId: string, id: string): Promise<TextEntry | null> {
+  return (await purgeTrashedEntries(userId, [id]))[0] ?? null
+}
 
-  return true
+// Permanently delete everything in the user's trash, returning the deleted entries
+export async function emptyTrash(userId: string): Promise<TextEntry[]> {
+  const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+  return purgeTrashedEntries(userId, trash.map((item) => item.id))
 }
 
-// Check if storage is using KV or memory
-export async function getStorageInfo(): Promise<{ isGlobal: boolean; storage: string }> {
+/**
+ * Migrates all of a user's notes, including the trash, to the current schema
+ * instead of waiting for them to be read. Returns how many were checked and
+ * how many had to be rewritten.
+ */
+export async function migrateUserEntries(userId: string): Promise<{ scanned: number; migrated: number }> {
+  await getNoteIndex(userId)
+
+  return withIndexLock(userId, async () => {
+    const index = await loadNoteIndex(userId)
+    const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+    let migrated = 0
+
+    for (const { id } of [...index, ...trash]) {
+      const stored = await readNote(userId, id)
+      if (stored && stored.userId === userId && needsMigration(stored)) {
+        await migrateStoredEntry(userId, stored)
+        migrated++
+      }
+    }
+
+    return { scanned: index.length + trash.length, migrated }
+  })
+}
+
+/**
+ * Rewrites all of a user's notes, including the trash, their revisions,
+ * attachment blobs and uploads not yet attached with the current storage data
+ * key. Run after a key rotation, or to seal data written before encryption
+ * was turned on.
+ */
+export async function reencryptUserEntries(userId: string): Promise<{ scanned: number; reencrypted: number }> {
+  await getNoteIndex(userId)
+
+  return withIndexLock(userId, async () => {
+    const index = await loadNoteIndex(userId)
+    const trash = (await readValue<TrashIndexEntry[]>(getTrashIndexKey(userId))) || []
+    let reencrypted = 0
+
+    for (const { id } of [...index, ...trash]) {
+      const stored = await readValue<TextEntry | SealedValue>(getNoteKey(userId, id))
+      const entry = await openValue(stored)
+      if (!entry || entry.userId !== userId) {
+        continue
+      }
+
+      if (await needsResealing(stored)) {
+        await writeNote(userId, entry)
+        reencrypted++
+      }
+      if (await reencryptRevisions(userId, id)) {
+        reencrypted++
+      }
+      for (const attachment of entry.attachments || []) {
+        if (attachment.hash && (await reencryptBlob(attachment.hash))) {
+          reencrypted++
+        }
+      }
+    }
+
+    reencrypted += await reencryptPendingUploads(userId)
+
+    return { scanned: index.length + trash.length, reencrypted }
+  })
+}
+
+// Report which storage backend is active and whether it is reachable
+export async function getStorageInfo(): Promise<{ isGlobal: boolean; storage: string; healthy: boolean }> {
+  const backend = getStorageBackend()
+
   try {
-    await kv.ping()
-    return { isGlobal: true, storage: "vercel-kv" }
+    await backend.ping()
+    return { isGlobal: backend.isGlobal, storage: backend.name, healthy: true }
   } catch (error) {
-    return { isGlobal: false, storage: "memory" }
+    console.error(`❌ ${backend.name} storage is unavailable:`, error)
+    return { isGlobal: backend.isGlobal, storage: backend.name, healthy: false }
   }
 }
@@ -0,0 +1,56 @@
+import type { TextEntry } from "./types"
+
+export const MAX_TAGS_PER_NOTE = 10
+export const MAX_TAG_LENGTH = 32
+
+export interface TagCount {
+  name: string
+  count: number
+}
+
+// Tags are compared case-insensitively, so they're stored lowercase with dashes for spaces
+export function normalizeTag(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, "-")
+}
+
+export function isValidTag(tag: string): boolean {
+  return tag.length > 0 && tag.length <= MAX_TAG_LENGTH && /^[\p{L}\p{N}_-]+$/u.test(tag)
+}
+
+/**
+ * Normalizes a list of tags from a request, dropping duplicates. Returns an
+ * error message instead if it isn't a list of valid tags.
+ */
+export function parseTagList(value: unknown): string[] | string {
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === "string")) {
+    return "Tags must be a list of strings"
+  }
+
+  const tags = [...new Set(value.map(normalizeTag))]
+  const invalid = tags.find((tag) => !isValidTag(tag))
+  if (invalid !== undefined) {
+    return `Invalid tag "${invalid}" (letters, numbers, - and _ only, max ${MAX_TAG_LENGTH} characters)`
+  }
+  if (tags.length > MAX_TAGS_PER_NOTE) {
+    return `Too many tags (max ${MAX_TAGS_PER_NOTE} per note)`
+  }
+  return tags
+}
+
+// Most used first, then alphabetical
+export function countTags(entries: Pick<TextEntry, "tags">[]): TagCount[] {
+  const counts = new Map<string, number>()
+  for (const entry of entries) {
+    for (const tag of entry.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1)
+    }
+  }
+  return [...counts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
+
+// Filtering by several tags narrows the list: a note must have all of them
+export function hasAllTags(entry: Pick<TextEntry, "tags">, tags: string[]): boolean {
+  return tags.every((tag) => (entry.tags || []).includes(tag))
+}
@@ -0,0 +1,113 @@
+import { createHmac, createHash, randomBytes, timingSafeEqual } from "crypto"
+
+// RFC 6238 defaults understood by every authenticator app
+const TOTP_STEP_SECONDS = 30
+const TOTP_DIGITS = 6
+// Accept codes from one step either side to tolerate clock drift
+const TOTP_WINDOW = 1
+const RECOVERY_CODE_COUNT = 10
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ""
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, "")
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char)
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0")
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+export function buildOtpauthUri(secret: string, accountName: string, issuer = "Private Notes"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/**
+ * Checks a code against the current time window and returns the matched time
+ * step, or null. Steps at or before `lastUsedStep` are refused so a code can't
+ * be replayed.
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number): number | null {
+  const normalized = code.replace(/\s/g, "")
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null
+  }
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS)
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== undefined && step <= lastUsedStep) {
+      continue
+    }
+    const expected = Buffer.from(generateCode(secret, step))
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+// Recovery codes are high-entropy, so a fast hash is enough to store them
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.toUpperCase().replace(/[^A-Z2-7]/g, "")).digest("hex")
+}
+
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10)
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
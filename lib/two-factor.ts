@@ -0,0 +1,101 @@
+import { saveUser, type User } from "./users"
+import { buildOtpauthUri, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, verifyTotp } from "./totp"
+
+export interface SecondFactorInput {
+  code?: string
+  recoveryCode?: string
+}
+
+// The codes sent in a request body, or null if either is there but isn't a string
+export function readSecondFactorInput(body: { code?: unknown; recoveryCode?: unknown }): SecondFactorInput | null {
+  const { code, recoveryCode } = body
+  if (
+    (code !== undefined && typeof code !== "string") ||
+    (recoveryCode !== undefined && typeof recoveryCode !== "string")
+  ) {
+    return null
+  }
+  return { code, recoveryCode }
+}
+
+export function isTwoFactorEnabled(user: User): boolean {
+  return !!user.twoFactor?.secret
+}
+
+// Start (or restart) enrollment with a fresh secret that isn't active until confirmed
+export async function beginTwoFactorEnrollment(user: User): Promise<{ secret: string; otpauthUri: string }> {
+  const secret = generateTotpSecret()
+  user.twoFactor = {
+    ...(user.twoFactor || { recoveryCodeHashes: [] }),
+    pendingSecret: secret,
+  }
+  await saveUser(user)
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.username) }
+}
+
+// Activate the pending secret and return the one-time recovery codes, or null if the code is wrong
+export async function confirmTwoFactorEnrollment(user: User, code: string): Promise<string[] | null> {
+  const pendingSecret = user.twoFactor?.pendingSecret
+  if (!pendingSecret) {
+    return null
+  }
+
+  const step = verifyTotp(pendingSecret, code)
+  if (step === null) {
+    return null
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  user.twoFactor = {
+    secret: pendingSecret,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedStep: step,
+    enabledAt: new Date().toISOString(),
+  }
+  await saveUser(user)
+
+  return recoveryCodes
+}
+
+/**
+ * Checks a TOTP or recovery code for a user with two-factor enabled. Successful
+ * codes are consumed: the TOTP step can't be reused and recovery codes are removed.
+ */
+export async function verifySecondFactor(user: User, input: SecondFactorInput): Promise<boolean> {
+  const settings = user.twoFactor
+  if (!settings?.secret) {
+    return false
+  }
+
+  if (input.code) {
+    const step = verifyTotp(settings.secret, input.code, settings.lastUsedStep)
+    if (step === null) {
+      return false
+    }
+    user.twoFactor = { ...settings, lastUsedStep: step }
+    await saveUser(user)
+    return true
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashRecoveryCode(input.recoveryCode)
+    if (!settings.recoveryCodeHashes.includes(hash)) {
+      return false
+    }
+    user.twoFactor = {
+      ...settings,
+      recoveryCodeHashes: settings.recoveryCodeHashes.filter((existing) => existing !== hash),
+    }
+    await saveUser(user)
+    console.log(`🔑 User ${user.username} used a recovery code (${user.twoFactor.recoveryCodeHashes.length} left)`)
+    return true
+  }
+
+  return false
+}
+
+export async function disableTwoFactor(user: User): Promise<void> {
+  delete user.twoFactor
+  await saveUser(user)
+}
@@ -0,0 +1,50 @@
+// Note data shared by the API routes and the client. Keep this free of server-only imports.
+
+export interface FileAttachment {
+  id: string
+  filename: string
+  mimeType: string
+  size: number
+  hash?: string // sha256 of the file in the blob store
+  data?: string // base64 encoded file data - only on notes saved before the blob store
+  encrypted?: boolean // Bytes and filename are vault ciphertext; see lib/vault-crypto.ts
+  uploadedAt: string
+}
+
+export interface TextEntry {
+  id: string
+  title: string
+  content: string
+  createdAt: string
+  updatedAt: string
+  userId: string
+  attachments?: FileAttachment[]
+  tags: string[] // Normalized with lib/tags.ts; always empty on encrypted notes
+  version: number // Bumped on every update
+  schemaVersion: number // Shape of the stored record; see lib/migrations.ts
+  encrypted?: boolean // Title and content are vault ciphertext, set when the note is created
+  deletedAt?: string // Set while the note is in the trash
+}
+
+export interface NoteRevision {
+  version: number
+  title: string
+  content: string
+  attachmentIds: string[]
+  author?: string // Username that saved this version, if known
+  createdAt: string
+}
+
+export interface StorageUsage {
+  notes: number
+  attachmentBytes: number
+  // Uploads not attached to a note yet; they count toward the storage quota until they expire
+  pendingUploads: number
+  pendingUploadBytes: number
+}
+
+export interface RoleQuota {
+  maxNotes: number
+  maxStorageBytes: number // Total size of all attachments
+  maxFileSize: number
+}
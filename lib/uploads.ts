@@ -0,0 +1,239 @@
+import type { IncomingHttpHeaders } from "http"
+import { Readable } from "stream"
+import type { ReadableStream as NodeReadableStream } from "stream/web"
+import busboy from "busboy"
+import { getStorageBackend } from "./storage-backend"
+import { addBlobReference, reencryptBlob, releaseBlobReference } from "./blob-store"
+import { needsResealing, openValue, sealValue, type SealedValue } from "./storage-encryption"
+import type { FileAttachment } from "./types"
+
+// Uploads that no note has claimed by then are thrown away
+const PENDING_UPLOAD_DURATION = 24 * 60 * 60 * 1000 // 24 hours
+// Unclaimed uploads a user may hold at once; their bytes count toward the storage quota too
+export const MAX_PENDING_UPLOADS = 20
+// Expired uploads of users who never come back are swept this often, piggybacking on other uploads
+const SWEEP_INTERVAL = 60 * 60 * 1000 // 1 hour
+
+const UPLOAD_USERS_KEY = "uploads:users"
+const LAST_SWEEP_KEY = "uploads:last-sweep"
+
+interface PendingUpload {
+  userId: string
+  attachment: FileAttachment
+  expiresAt: number
+}
+
+export type UploadedFile =
+  | { status: "ok"; filename: string; declaredType: string; data: Buffer }
+  | { status: "missing" }
+  | { status: "too_large" }
+
+function getUploadKey(id: string): string {
+  return `upload:${id}`
+}
+
+function getUserUploadsKey(userId: string): string {
+  return `user:${userId}:uploads`
+}
+
+// Upload metadata holds filenames, so it is sealed like notes when a storage master key is set
+async function readUpload(id: string): Promise<PendingUpload | null> {
+  return openValue(await getStorageBackend().get<PendingUpload | SealedValue>(getUploadKey(id)))
+}
+
+async function writeUpload(upload: PendingUpload): Promise<void> {
+  await getStorageBackend().set(getUploadKey(upload.attachment.id), await sealValue(upload))
+}
+
+/**
+ * Reads the "file" field of a multipart body as it streams in. Parsing stops
+ * as soon as the file passes `maxSize`, so oversized uploads are never held
+ * in memory in full.
+ */
+export function readUploadedFile(
+  body: ReadableStream<Uint8Array>,
+  headers: IncomingHttpHeaders,
+  maxSize: number,
+): Promise<UploadedFile> {
+  return new Promise((resolve, reject) => {
+    const source = Readable.fromWeb(body as NodeReadableStream<Uint8Array>)
+    const parser = busboy({ headers, limits: { files: 1, fileSize: maxSize } })
+    let result: UploadedFile = { status: "missing" }
+
+    parser.on("file", (field, stream, info) => {
+      if (field !== "file") {
+        stream.resume()
+        return
+      }
+
+      const chunks: Buffer[] = []
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk))
+      stream.on("limit", () => {
+        source.unpipe(parser)
+        source.destroy()
+        resolve({ status: "too_large" })
+      })
+      stream.on("end", () => {
+        result = {
+          status: "ok",
+          filename: info.filename || "file",
+          declaredType: info.mimeType,
+          data: Buffer.concat(chunks),
+        }
+      })
+    })
+    parser.on("close", () => resolve(result))
+    parser.on("error", reject)
+    source.on("error", reject)
+
+    source.pipe(parser)
+  })
+}
+
+// Drop the user's uploads that were never attached to a note, returning the ones still waiting
+async function purgeExpiredUploads(userId: string): Promise<PendingUpload[]> {
+  const backend = getStorageBackend()
+  const ids = (await backend.get<string[]>(getUserUploadsKey(userId))) || []
+  const live: PendingUpload[] = []
+
+  for (const id of ids) {
+    const upload = await readUpload(id)
+    if (upload && upload.expiresAt > Date.now()) {
+      live.push(upload)
+      continue
+    }
+    if (upload?.attachment.hash) {
+      await releaseBlobReference(upload.attachment.hash)
+    }
+    await backend.delete(getUploadKey(id))
+  }
+
+  if (live.length !== ids.length) {
+    await backend.set(
+      getUserUploadsKey(userId),
+      live.map((upload) => upload.attachment.id),
+    )
+  }
+  return live
+}
+
+// Purge expired uploads of every user who has any, at most once per SWEEP_INTERVAL
+async function sweepExpiredUploads(): Promise<void> {
+  const backend = getStorageBackend()
+  const lastSweep = (await backend.get<number>(LAST_SWEEP_KEY)) || 0
+  if (Date.now() - lastSweep < SWEEP_INTERVAL) {
+    return
+  }
+  await backend.set(LAST_SWEEP_KEY, Date.now())
+
+  const userIds = (await backend.get<string[]>(UPLOAD_USERS_KEY)) || []
+  const remaining: string[] = []
+  for (const userId of userIds) {
+    if ((await purgeExpiredUploads(userId)).length > 0) {
+      remaining.push(userId)
+    }
+  }
+  await backend.set(UPLOAD_USERS_KEY, remaining)
+}
+
+/**
+ * How many uploads the user has waiting to be attached and how big they are.
+ * Expired ones are purged first, so they stop counting as soon as they lapse.
+ */
+export async function getPendingUploadUsage(userId: string): Promise<{ count: number; bytes: number }> {
+  const live = await purgeExpiredUploads(userId)
+  return { count: live.length, bytes: live.reduce((sum, upload) => sum + upload.attachment.size, 0) }
+}
+
+/**
+ * Stores an uploaded file's bytes and parks its metadata until a note claims
+ * it by ID. `mimeType`, the pending upload limit and the quota must already
+ * have been checked by the caller. The filename of an `encrypted` upload is
+ * ciphertext and is kept whole.
+ */
+export async function createPendingUpload(
+  userId: string,
+  filename: string,
+  mimeType: string,
+  data: Buffer,
+  encrypted = false,
+): Promise<FileAttachment> {
+  const backend = getStorageBackend()
+  await sweepExpiredUploads()
+  const live = await purgeExpiredUploads(userId)
+
+  const attachment: FileAttachment = {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    filename: encrypted ? filename : filename.slice(0, 255),
+    mimeType,
+    size: data.length,
+    hash: await addBlobReference(data),
+    ...(encrypted && { encrypted: true }),
+    uploadedAt: new Date().toISOString(),
+  }
+
+  await writeUpload({
+    userId,
+    attachment,
+    expiresAt: Date.now() + PENDING_UPLOAD_DURATION,
+  })
+  await backend.set(getUserUploadsKey(userId), [...live.map((upload) => upload.attachment.id), attachment.id])
+  const userIds = (await backend.get<string[]>(UPLOAD_USERS_KEY)) || []
+  if (!userIds.includes(userId)) {
+    await backend.set(UPLOAD_USERS_KEY, [...userIds, userId])
+  }
+
+  return attachment
+}
+
+// Look at an upload without claiming it, e.g. to check it against a quota
+export async function getPendingUpload(userId: string, id: string): Promise<FileAttachment | null> {
+  const upload = await readUpload(id)
+  return upload && upload.userId === userId && upload.expiresAt >= Date.now() ? upload.attachment : null
+}
+
+/**
+ * Hands an upload over to a note. The blob reference taken at upload time
+ * moves with it, so this must only be called once the note is being saved.
+ */
+export async function claimPendingUpload(userId: string, id: string): Promise<FileAttachment | null> {
+  const backend = getStorageBackend()
+  const attachment = await getPendingUpload(userId, id)
+  if (!attachment) {
+    return null
+  }
+
+  await backend.delete(getUploadKey(id))
+  const ids = (await backend.get<string[]>(getUserUploadsKey(userId))) || []
+  await backend.set(
+    getUserUploadsKey(userId),
+    ids.filter((uploadId) => uploadId !== id),
+  )
+
+  return attachment
+}
+
+// Throws away an upload no note is going to claim, e.g. when saving the note failed
+export async function releasePendingUpload(userId: string, id: string): Promise<void> {
+  const attachment = await claimPendingUpload(userId, id)
+  if (attachment?.hash) {
+    await releaseBlobReference(attachment.hash)
+  }
+}
+
+// Rewrites the user's waiting uploads and their blobs with the current storage data key
+export async function reencryptPendingUploads(userId: string): Promise<number> {
+  let reencrypted = 0
+
+  for (const upload of await purgeExpiredUploads(userId)) {
+    if (await needsResealing(await getStorageBackend().get(getUploadKey(upload.attachment.id)))) {
+      await writeUpload(upload)
+      reencrypted++
+    }
+    if (upload.attachment.hash && (await reencryptBlob(upload.attachment.hash))) {
+      reencrypted++
+    }
+  }
+
+  return reencrypted
+}
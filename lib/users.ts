@@ -1,39 +1,258 @@
+import { readValue, writeValue } from "./storage"
+import { hashPassword } from "./passwords"
+import type { RoleQuota } from "./types"
+import type { VaultParams } from "./vault-crypto"
+
+export type UserRole = "admin" | "user" | "demo"
+
+export interface TwoFactorSettings {
+  secret?: string // Set once enrollment is confirmed
+  pendingSecret?: string // Awaiting a confirmation code
+  recoveryCodeHashes: string[]
+  lastUsedStep?: number
+  enabledAt?: string
+}
+
+// Only what a browser needs to derive the vault key; the passphrase never leaves it
+export interface VaultSettings extends VaultParams {
+  createdAt: string
+}
+
 export interface User {
   id: string
   username: string
   passwordHash: string
-  role: "admin" | "user" | "demo"
+  role: UserRole
   name: string
+  email?: string // Needed for password reset mail
+  createdAt?: string
+  disabled?: boolean
+  twoFactor?: TwoFactorSettings
+  vault?: VaultSettings
 }
 
-// Static users for demo - in production, these would be in a database
-export const USERS: User[] = [
+export interface NewUser {
+  username: string
+  password: string
+  name: string
+  email?: string
+  role?: UserRole
+}
+
+type SeedUser = Omit<User, "passwordHash"> & { password: string }
+
+// Seed users for local development - only written to storage when seeding is enabled
+export const SEED_USERS: SeedUser[] = [
   {
     id: "1",
     username: "admin",
-    passwordHash: "admin123", // In production, this would be properly hashed
+    password: "admin123",
     role: "admin",
     name: "Administrator",
+    email: "admin@example.com",
   },
   {
     id: "2",
     username: "john",
-    passwordHash: "john123",
+    password: "john123",
     role: "user",
     name: "John Doe",
+    email: "john@example.com",
   },
   {
     id: "3",
     username: "sarah",
-    passwordHash: "sarah123",
+    password: "sarah123",
     role: "user",
     name: "Sarah Wilson",
+    email: "sarah@example.com",
   },
   {
     id: "4",
     username: "demo",
-    passwordHash: "demo123",
+    password: "demo123",
     role: "demo",
     name: "Demo User",
   },
 ]
+
+export const USER_ROLES: UserRole[] = ["admin", "user", "demo"]
+
+const MB = 1024 * 1024
+
+// Per-role limits; notes and files in the trash count until they are purged
+export const ROLE_QUOTAS: Record<UserRole, RoleQuota> = {
+  admin: { maxNotes: 5000, maxStorageBytes: 1024 * MB, maxFileSize: 25 * MB },
+  user: { maxNotes: 1000, maxStorageBytes: 100 * MB, maxFileSize: 5 * MB },
+  demo: { maxNotes: 10, maxStorageBytes: 2 * MB, maxFileSize: 512 * 1024 },
+}
+
+export function getRoleQuota(role: string): RoleQuota {
+  return ROLE_QUOTAS[role as UserRole] ?? ROLE_QUOTAS.user
+}
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MIN_PASSWORD_LENGTH = 8
+
+const USER_INDEX_KEY = "users:index"
+
+function getUserKey(id: string): string {
+  return `user:${id}:profile`
+}
+
+function getUsernameKey(username: string): string {
+  return `username:${username.toLowerCase()}`
+}
+
+function getEmailKey(email: string): string {
+  return `email:${email.toLowerCase()}`
+}
+
+// Seeding defaults to on outside production; SEED_USERS=true|false overrides it
+function isSeedingEnabled(): boolean {
+  if (process.env.SEED_USERS) {
+    return process.env.SEED_USERS === "true"
+  }
+  return process.env.NODE_ENV !== "production"
+}
+
+let seedPromise: Promise<void> | null = null
+
+async function seedUsers(): Promise<void> {
+  for (const { password, ...seed } of SEED_USERS) {
+    const existingId = await readValue<string>(getUsernameKey(seed.username))
+    if (!existingId) {
+      await saveUser({ ...seed, passwordHash: await hashPassword(password), createdAt: new Date().toISOString() })
+      console.log(`🌱 Seeded user ${seed.username}`)
+    }
+  }
+}
+
+function ensureSeeded(): Promise<void> {
+  if (!isSeedingEnabled()) {
+    return Promise.resolve()
+  }
+  if (!seedPromise) {
+    seedPromise = seedUsers().catch((error) => {
+      seedPromise = null
+      console.error("❌ Failed to seed users:", error)
+    })
+  }
+  return seedPromise
+}
+
+// Returns an error message for an unacceptable password, or null
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  return null
+}
+
+// Returns an error message for a malformed email address, or null
+export function validateEmail(email: unknown): string | null {
+  if (typeof email !== "string" || email.length > 254 || !EMAIL_PATTERN.test(email)) {
+    return "Please enter a valid email address"
+  }
+  return null
+}
+
+// Returns an error message for invalid new-user input, or null
+export function validateNewUser(input: {
+  username?: unknown
+  password?: unknown
+  name?: unknown
+  email?: unknown
+}): string | null {
+  const { username, password, name, email } = input
+
+  if (!username || !password || !name) {
+    return "Username, password and name are required"
+  }
+
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+    return "Username must be 3-32 letters, numbers, dots, dashes or underscores"
+  }
+
+  if (typeof name !== "string" || name.trim().length === 0 || name.length > 50) {
+    return "Name must be between 1 and 50 characters"
+  }
+
+  if (email) {
+    const emailError = validateEmail(email)
+    if (emailError) {
+      return emailError
+    }
+  }
+
+  return validatePassword(password)
+}
+
+// Persist a user record and keep the username lookup and index in sync
+export async function saveUser(user: User): Promise<void> {
+  await writeValue(getUserKey(user.id), user)
+  await writeValue(getUsernameKey(user.username), user.id)
+  if (user.email) {
+    await writeValue(getEmailKey(user.email), user.id)
+  }
+
+  const index = (await readValue<string[]>(USER_INDEX_KEY)) || []
+  if (!index.includes(user.id)) {
+    await writeValue(USER_INDEX_KEY, [...index, user.id])
+  }
+}
+
+export async function getUserById(id: string): Promise<User | null> {
+  await ensureSeeded()
+  return readValue<User>(getUserKey(id))
+}
+
+export async function getUserByUsername(username: string): Promise<User | null> {
+  await ensureSeeded()
+  const id = await readValue<string>(getUsernameKey(username))
+  if (!id) {
+    return null
+  }
+  return readValue<User>(getUserKey(id))
+}
+
+export async function getUserByEmail(email: string): Promise<User | null> {
+  await ensureSeeded()
+  const id = await readValue<string>(getEmailKey(email))
+  if (!id) {
+    return null
+  }
+  const user = await readValue<User>(getUserKey(id))
+  // The lookup can be stale if the user's address changed since
+  return user?.email?.toLowerCase() === email.toLowerCase() ? user : null
+}
+
+export async function listUsers(): Promise<User[]> {
+  await ensureSeeded()
+  const index = (await readValue<string[]>(USER_INDEX_KEY)) || []
+  const users = await Promise.all(index.map((id) => readValue<User>(getUserKey(id))))
+  return users.filter((user): user is User => user !== null)
+}
+
+// Create a new user, returning null if the username is already taken
+export async function createUser(newUser: NewUser): Promise<User | null> {
+  const existing = await getUserByUsername(newUser.username)
+  if (existing) {
+    return null
+  }
+
+  const user: User = {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    username: newUser.username.trim(),
+    passwordHash: await hashPassword(newUser.password),
+    role: newUser.role || "user",
+    name: newUser.name.trim(),
+    email: newUser.email?.trim().toLowerCase() || undefined,
+    createdAt: new Date().toISOString(),
+  }
+
+  await saveUser(user)
+
+  return user
+}
@@ -0,0 +1,166 @@
+// End-to-end encryption for vault notes. Runs in the browser; the server only
+// uses the format checks, since it never sees a passphrase or a key.
+
+import type { FileAttachment, TextEntry } from "./types"
+
+// Marks a string as vault ciphertext: base64url of a random 12-byte IV followed by the AES-GCM output.
+// base64url because encrypted filenames travel in multipart headers, where "/" would be cut as a path
+const CIPHERTEXT_PREFIX = "e2e:v1:"
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+// Encrypted with a new key to check a passphrase before anything else is decrypted with it
+const VERIFIER_PLAINTEXT = "share-here-vault"
+
+export const VAULT_KDF_ITERATIONS = 310000
+
+// What the server keeps so any browser can derive the same key from the passphrase
+export interface VaultParams {
+  salt: string // base64url
+  iterations: number
+  verifier: string // VERIFIER_PLAINTEXT encrypted with the derived key
+}
+
+// The real name and type of an encrypted attachment, kept encrypted in its filename
+export interface AttachmentMetadata {
+  name: string
+  type: string
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function isEncryptedText(value: unknown): value is string {
+  return typeof value === "string" && /^e2e:v1:[A-Za-z0-9_-]+$/.test(value)
+}
+
+// Longest ciphertext a plaintext of `maxChars` UTF-16 characters can produce (up to 3 UTF-8 bytes each)
+export function maxEncryptedLength(maxChars: number): number {
+  return CIPHERTEXT_PREFIX.length + Math.ceil(((IV_LENGTH + maxChars * 3 + TAG_LENGTH) * 4) / 3)
+}
+
+export function isVaultParams(value: unknown): value is VaultParams {
+  const params = value as VaultParams
+  return (
+    typeof params?.salt === "string" &&
+    /^[A-Za-z0-9_-]{16,}$/.test(params.salt) &&
+    Number.isInteger(params.iterations) &&
+    params.iterations >= 100000 &&
+    params.iterations <= 10000000 &&
+    isEncryptedText(params.verifier)
+  )
+}
+
+function generateVaultSalt(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(16)))
+}
+
+// PBKDF2-SHA256 stretches the passphrase into a non-extractable AES-GCM key
+export async function deriveVaultKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ])
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64Url(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+// IV followed by ciphertext and tag
+export async function encryptBytes(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data))
+  const result = new Uint8Array(IV_LENGTH + ciphertext.length)
+  result.set(iv)
+  result.set(ciphertext, IV_LENGTH)
+  return result
+}
+
+// Throws if the key is wrong or the data was tampered with
+export async function decryptBytes(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: data.subarray(0, IV_LENGTH) },
+    key,
+    data.subarray(IV_LENGTH),
+  )
+  return new Uint8Array(plaintext)
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  return CIPHERTEXT_PREFIX + toBase64Url(await encryptBytes(key, new TextEncoder().encode(text)))
+}
+
+export async function decryptText(key: CryptoKey, value: string): Promise<string> {
+  if (!isEncryptedText(value)) {
+    throw new Error("Not vault ciphertext")
+  }
+  return new TextDecoder().decode(await decryptBytes(key, fromBase64Url(value.slice(CIPHERTEXT_PREFIX.length))))
+}
+
+export async function createVaultParams(passphrase: string): Promise<{ params: VaultParams; key: CryptoKey }> {
+  const salt = generateVaultSalt()
+  const key = await deriveVaultKey(passphrase, salt, VAULT_KDF_ITERATIONS)
+  const verifier = await encryptText(key, VERIFIER_PLAINTEXT)
+  return { params: { salt, iterations: VAULT_KDF_ITERATIONS, verifier }, key }
+}
+
+// Derive the key for an existing vault, or null if the passphrase is wrong
+export async function unlockVault(passphrase: string, params: VaultParams): Promise<CryptoKey | null> {
+  const key = await deriveVaultKey(passphrase, params.salt, params.iterations)
+  try {
+    return (await decryptText(key, params.verifier)) === VERIFIER_PLAINTEXT ? key : null
+  } catch {
+    return null
+  }
+}
+
+export async function encryptAttachmentMetadata(key: CryptoKey, metadata: AttachmentMetadata): Promise<string> {
+  return encryptText(key, JSON.stringify({ name: metadata.name.slice(0, 100), type: metadata.type.slice(0, 100) }))
+}
+
+export async function decryptAttachmentMetadata(key: CryptoKey, value: string): Promise<AttachmentMetadata> {
+  const { name, type } = JSON.parse(await decryptText(key, value))
+  return { name: String(name), type: String(type) }
+}
+
+export async function decryptAttachment(key: CryptoKey, attachment: FileAttachment): Promise<FileAttachment> {
+  const { name, type } = await decryptAttachmentMetadata(key, attachment.filename)
+  return { ...attachment, filename: name, mimeType: type }
+}
+
+// A readable copy of a vault note. Throws if it wasn't encrypted with this key
+export async function decryptNote<T extends TextEntry>(key: CryptoKey, entry: T): Promise<T> {
+  const attachments =
+    entry.attachments &&
+    (await Promise.all(
+      entry.attachments.map((attachment) => (attachment.encrypted ? decryptAttachment(key, attachment) : attachment)),
+    ))
+
+  if (!entry.encrypted) {
+    return { ...entry, attachments }
+  }
+
+  return {
+    ...entry,
+    title: await decryptText(key, entry.title),
+    content: await decryptText(key, entry.content),
+    attachments,
+  }
+}
@@ -0,0 +1,27 @@
+import { saveUser, type User } from "./users"
+import { getTrashedEntries, getUserEntries } from "./storage"
+import type { VaultParams } from "./vault-crypto"
+
+export function getVaultParams(user: User): VaultParams | null {
+  if (!user.vault) {
+    return null
+  }
+  const { salt, iterations, verifier } = user.vault
+  return { salt, iterations, verifier }
+}
+
+export async function enableVault(user: User, params: VaultParams): Promise<void> {
+  user.vault = { ...params, createdAt: new Date().toISOString() }
+  await saveUser(user)
+}
+
+// Encrypted notes the user still has, including the trash; a vault can't be reset while any remain
+export async function countEncryptedNotes(userId: string): Promise<number> {
+  const entries = [...(await getUserEntries(userId)), ...(await getTrashedEntries(userId))]
+  return entries.filter((entry) => entry.encrypted).length
+}
+
+export async function resetVault(user: User): Promise<void> {
+  delete user.vault
+  await saveUser(user)
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { resolveSession, type AuthSession } from "./auth"
+import { hasScope, isApiToken, resolveApiToken, type ApiTokenScope } from "./api-tokens"
+import { getClientInfo } from "./sessions"
+import { SESSION_COOKIE, getBearerToken } from "./session-cookie"
+import type { UserRole } from "./users"
+
+type SessionHandler<C> = (request: NextRequest, session: AuthSession, context: C) => Promise<Response>
+
+interface WithSessionOptions {
+  role?: UserRole
+  // Personal API tokens are only accepted by routes that name the scope they need
+  scope?: ApiTokenScope
+}
+
+// Bearer header wins over the cookie so scripts aren't affected by a stale browser session
+export function getRequestToken(request: NextRequest): string | null {
+  return getBearerToken(request.headers) || request.cookies.get(SESSION_COOKIE)?.value || null
+}
+
+/**
+ * Wraps a route handler so the AuthSession is resolved once per request and
+ * passed in, responding 401 (or 403 for a missing role or scope) before the handler runs.
+ */
+export function withSession<C = unknown>(handler: SessionHandler<C>, options: WithSessionOptions = {}) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const token = getRequestToken(request)
+    if (!token) {
+      return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 })
+    }
+
+    const session = isApiToken(token)
+      ? await resolveApiToken(token)
+      : await resolveSession(token, getClientInfo(request.headers))
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Invalid or expired token" }, { status: 401 })
+    }
+
+    if (session.scopes) {
+      if (!options.scope) {
+        return NextResponse.json(
+          { success: false, error: "API tokens are not accepted for this endpoint" },
+          { status: 403 },
+        )
+      }
+      if (!hasScope(session, options.scope)) {
+        return NextResponse.json(
+          { success: false, error: `Token is missing the ${options.scope} scope` },
+          { status: 403 },
+        )
+      }
+    }
+
+    if (options.role && session.role !== options.role) {
+      return NextResponse.json({ success: false, error: "Insufficient permissions" }, { status: 403 })
+    }
+
+    return handler(request, session, context)
+  }
+}
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE, getBearerToken } from "@/lib/session-cookie"
+
+// API routes reachable without a session
+const PUBLIC_API_ROUTES = [
+  "/api/auth/login",
+  "/api/auth/register",
+  "/api/auth/verify",
+  "/api/auth/logout",
+  "/api/auth/two-factor/verify",
+  "/api/auth/forgot-password",
+  "/api/auth/reset-password",
+  "/api/chat/enabled",
+]
+
+/**
+ * Cheap first gate: rejects requests that carry no credential at all. The
+ * token itself is verified by withSession in the route, which has access to
+ * the session registry.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const hasCredential = request.cookies.has(SESSION_COOKIE) || getBearerToken(request.headers) !== null
+
+  if (pathname.startsWith("/api/")) {
+    if (request.nextUrl.searchParams.has("token")) {
+      return NextResponse.json(
+        { success: false, error: "Tokens in the query string are not accepted; use the Authorization header" },
+        { status: 400 },
+      )
+    }
+
+    if (!hasCredential && !PUBLIC_API_ROUTES.includes(pathname)) {
+      return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 })
+    }
+
+    return NextResponse.next()
+  }
+
+  // Protected pages bounce to the login screen
+  if (!hasCredential) {
+    return NextResponse.redirect(new URL("/", request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ["/api/:path*", "/account/:path*", "/admin/:path*", "/trash/:path*"],
+}